@@ -0,0 +1,256 @@
+/**
+ * scripts/cli.ts
+ * コマンドライン版: ブラウザを使わずに盤面の生成・解析・生成速度の計測を行う
+ *
+ *   npm run cli -- generate [盤面の指定] [--seed 1] [--count 10] [--start x,y] [--format json|ascii] [--out boards.jsonl]
+ *   npm run cli -- solve boards.jsonl [--exact] [--summary]
+ *   npm run cli -- bench [--topology SQUARE,TORUS] [--preset 0,1,2,3] [--seeds 5] [--max-attempts 2000]
+ *
+ * 盤面の指定: --topology, --preset（0～3）または --width / --height / --mines,
+ *            --lattice, --neighborhood, --offsets "dx,dy; dx,dy", --difficulty
+ * 盤面は盤面ファイルの形式で、JSON なら1行に1つ、テキストなら版の行から次の版の行までが1つ
+ * （1枚だけのファイルは画面の「Import Puzzle」でも読める）
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+    BOARD_TEXT_HEADER, DIFFICULTY_PRESETS, MAX_RETRY, centerCell, createTopology, describeCell, generateBoardAsync, gradePosition, parseBoard, randomSeed,
+    serializeBoardJson, serializeBoardText, validateConfig, type GameConfig
+} from '../src/logic/GameCore.ts';
+import { listTopologies } from '../src/logic/TopologyRegistry.ts';
+import { isLatticeType } from '../src/logic/Lattice.ts';
+import { isNeighborhoodType, parseOffsets } from '../src/logic/Neighborhood.ts';
+import { LEVEL_LABELS, formatTechniqueCounts, isDifficultyBandType } from '../src/logic/Difficulty.ts';
+import { findAllDeductions } from '../src/logic/Hint.ts';
+import { benchmarkGeneration, formatBenchmark } from '../src/logic/Benchmark.ts';
+
+const USAGE = `Usage:
+  cli generate [board options] [--seed N] [--count N] [--start x,y|index] [--format json|ascii] [--out FILE] [--exact] [--max-attempts N]
+  cli solve FILE [--exact] [--summary]
+  cli bench [--topology A,B,...] [--preset 0,1,...] [--seeds N] [--max-attempts N]
+
+Board options:
+  --topology TYPE  --preset 0-${DIFFICULTY_PRESETS.length - 1}  --width N  --height N  --mines N
+  --lattice SQUARE|HEX|TRIANGLE  --neighborhood TYPE  --offsets "dx,dy; dx,dy"  --difficulty BAND`;
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        topology: { type: 'string' },
+        preset: { type: 'string' },
+        width: { type: 'string' },
+        height: { type: 'string' },
+        mines: { type: 'string' },
+        lattice: { type: 'string' },
+        neighborhood: { type: 'string' },
+        offsets: { type: 'string' },
+        difficulty: { type: 'string' },
+        seed: { type: 'string' },
+        seeds: { type: 'string' },
+        count: { type: 'string' },
+        start: { type: 'string' },
+        format: { type: 'string' },
+        out: { type: 'string' },
+        exact: { type: 'boolean' },
+        summary: { type: 'boolean' },
+        'max-attempts': { type: 'string' },
+        help: { type: 'boolean' },
+    },
+});
+
+// head などに渡して途中で読むのをやめられても、エラーにせず終わる
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code === 'EPIPE') process.exit(0);
+    throw error;
+});
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+function readInteger(name: string, value: string | undefined, fallback: number, min = 0): number {
+    if (value === undefined) return fallback;
+    const n = Number(value);
+    if (!Number.isSafeInteger(n) || n < min) fail(`--${name} must be an integer of at least ${min}.`);
+    return n;
+}
+
+function readPreset(value: string): (typeof DIFFICULTY_PRESETS)[number] {
+    const preset = DIFFICULTY_PRESETS[readInteger('preset', value, 0)];
+    if (!preset) fail(`--preset must be between 0 and ${DIFFICULTY_PRESETS.length - 1}.`);
+    return preset;
+}
+
+// 盤面の指定を設定にする（トポロジーは topologyType、プリセットは preset で上書きできる）
+function readConfig(topologyType = values.topology ?? 'SQUARE', presetValue = values.preset ?? '0'): GameConfig {
+    const preset = readPreset(presetValue);
+    const config: GameConfig = {
+        width: readInteger('width', values.width, preset.width, 1),
+        height: readInteger('height', values.height, preset.height, 1),
+        mines: readInteger('mines', values.mines, preset.mines, 1),
+        topologyType,
+    };
+    if (values.lattice !== undefined) {
+        if (!isLatticeType(values.lattice)) fail(`Unknown lattice: ${values.lattice}`);
+        config.lattice = values.lattice;
+    }
+    if (values.neighborhood !== undefined) {
+        if (!isNeighborhoodType(values.neighborhood)) fail(`Unknown neighbourhood: ${values.neighborhood}`);
+        config.neighborhood = values.neighborhood;
+    }
+    if (values.offsets !== undefined) {
+        const offsets = parseOffsets(values.offsets);
+        if (offsets === null) fail('--offsets must look like "dx,dy; dx,dy".');
+        config.customOffsets = offsets;
+    }
+    if (values.difficulty !== undefined) {
+        if (!isDifficultyBandType(values.difficulty)) fail(`Unknown difficulty band: ${values.difficulty}`);
+        config.difficulty = values.difficulty;
+    }
+    return config;
+}
+
+// 最初のクリック: "x,y"（複数の面からなる曲面では最初の面の座標）またはマスの番号
+function readStart(config: GameConfig): number {
+    if (values.start === undefined) return centerCell(config);
+    const topology = createTopology(config);
+    const coords = /^(\d+),(\d+)$/.exec(values.start);
+    const index = coords
+        ? (Number(coords[1]) < config.width && Number(coords[2]) < config.height ? topology.toIndex(Number(coords[1]), Number(coords[2])) : -1)
+        : /^\d+$/.test(values.start) ? Number(values.start) : -1;
+    if (index < 0 || index >= topology.size) fail(`--start must be x,y inside the board or a cell index below ${topology.size}.`);
+    return index;
+}
+
+function describeConfig(config: GameConfig): string {
+    const extras = [config.lattice, config.neighborhood, config.difficulty].filter(Boolean);
+    return `${config.topologyType} ${config.width}×${config.height}, ${config.mines} mines${extras.length > 0 ? ` (${extras.join(', ')})` : ''}`;
+}
+
+async function generate() {
+    const config = readConfig();
+    const { errors, warnings } = validateConfig(config);
+    if (errors.length > 0) fail(errors.join('\n'));
+    warnings.forEach(w => console.error(`Warning: ${w}`));
+
+    const format = values.format ?? 'json';
+    if (format !== 'json' && format !== 'ascii') fail('--format must be json or ascii.');
+    const firstSeed = readInteger('seed', values.seed, randomSeed());
+    const count = readInteger('count', values.count, 1, 1);
+    const maxAttempts = readInteger('max-attempts', values['max-attempts'], MAX_RETRY, 1);
+    const startIndex = readStart(config);
+
+    const outputs: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const seed = (firstSeed + i) >>> 0;
+        const board = await generateBoardAsync(config, startIndex, () => {}, {
+            seed, maxAttempts, solverMode: values.exact ? 'EXACT' : 'STANDARD'
+        });
+        if (!board) {
+            console.error(`Seed ${seed}: no board solvable without guessing within ${maxAttempts} attempts.`);
+            process.exitCode = 1;
+            continue;
+        }
+        outputs.push(format === 'json'
+            ? serializeBoardJson(board, config)
+            : `# ${describeConfig(config)}, seed ${seed}, first click ${describeCell(board, startIndex)}\n${serializeBoardText(board, config)}`);
+    }
+
+    // テキストの盤面は末尾に改行があるので、空行1つで区切る
+    const text = format === 'json' ? outputs.join('\n') + '\n' : outputs.join('\n');
+    if (values.out) {
+        writeFileSync(values.out, text);
+        console.error(`Wrote ${outputs.length} board${outputs.length === 1 ? '' : 's'} to ${values.out}`);
+    } else {
+        process.stdout.write(text);
+    }
+}
+
+// JSON は1行に1枚、テキストは版の行ごとに1枚。
+// エラーの行番号がファイルの行番号になるよう、各盤面の前にそれまでの行数だけ空行を足す（読み込みでは無視される）
+function splitBoards(text: string): string[] {
+    const isContent = (line: string) => line.trim().length > 0 && !line.trimStart().startsWith('#');
+    const json = text.trimStart().startsWith('{');
+    const boards: string[] = [];
+    let current: string[] = [];
+    text.split('\n').forEach((line, n) => {
+        if (json ? isContent(line) : line.trim() === BOARD_TEXT_HEADER) {
+            if (current.some(isContent)) boards.push(current.join('\n'));
+            current = new Array(n).fill('');
+        }
+        current.push(line);
+    });
+    if (current.some(isContent)) boards.push(current.join('\n'));
+    return boards;
+}
+
+function solve() {
+    const [file] = positionals.slice(1);
+    if (!file) fail(USAGE);
+
+    splitBoards(readFileSync(file, 'utf8')).forEach((chunk, n) => {
+        const loaded = parseBoard(chunk);
+        if ('error' in loaded) fail(`${file}: board ${n + 1}: ${loaded.error}`);
+        const { config, board } = loaded;
+        const opened = board.status.filter(s => s === 'OPENED').length;
+        console.log(`Board ${n + 1}: ${describeConfig(config)}, ${opened} of ${board.topology.size} cells open`);
+
+        // 現在の局面から、マスを開かずに確定できるマス
+        const deductions = findAllDeductions(board, config.mines)
+            .filter(d => d.isMine ? board.status[d.cell] === 'HIDDEN' : board.status[d.cell] !== 'OPENED');
+        const safe = deductions.filter(d => !d.isMine).length;
+        console.log(`  Deducible now: ${safe} safe, ${deductions.length - safe} mines`);
+        if (!values.summary) {
+            for (const d of deductions) {
+                console.log(`    ${d.isMine ? 'mine' : 'safe'} ${describeCell(board, d.cell)} ${d.technique}`);
+            }
+        }
+
+        // 今の局面から推測なしで解き切れるか
+        const grade = gradePosition(board, config, values.exact ? 'EXACT' : 'STANDARD');
+        console.log(grade
+            ? `  Solvable from here: yes — ${LEVEL_LABELS[grade.level]} (score ${grade.score}; ${formatTechniqueCounts(grade.counts) || 'no deductions needed'})`
+            : '  Solvable from here: no');
+    });
+}
+
+async function bench() {
+    const topologies = values.topology?.split(',') ?? listTopologies().map(t => t.type);
+    const presets = (values.preset ?? DIFFICULTY_PRESETS.map((_, i) => i).join(',')).split(',');
+    const seedCount = readInteger('seeds', values.seeds, 5, 1);
+    const maxAttempts = readInteger('max-attempts', values['max-attempts'], MAX_RETRY, 1);
+
+    const configs: GameConfig[] = [];
+    for (const preset of presets) {
+        for (const topologyType of topologies) {
+            const config = readConfig(topologyType, preset);
+            const { errors } = validateConfig(config);
+            if (errors.length > 0) console.error(`Skipping ${describeConfig(config)}: ${errors[0]}`);
+            else configs.push(config);
+        }
+    }
+
+    const seeds = Array.from({ length: seedCount }, (_, i) => i + 1);
+    const results = await benchmarkGeneration(configs, {
+        seeds,
+        maxAttempts,
+        onResult: r => console.error(`${describeConfig(r.config)}: ${r.solved}/${r.boards} in ${(r.totalMs / 1000).toFixed(1)} s`),
+    });
+    console.log(`Seeds 1–${seedCount}, at most ${maxAttempts} attempts per board`);
+    console.log(formatBenchmark(results));
+}
+
+const command = positionals[0];
+if (values.help || command === undefined) {
+    console.log(USAGE);
+} else if (command === 'generate') {
+    await generate();
+} else if (command === 'solve') {
+    solve();
+} else if (command === 'bench') {
+    await bench();
+} else {
+    fail(`Unknown command: ${command}\n\n${USAGE}`);
+}
@@ -1,6 +1,28 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { GameCanvas } from './components/GameCanvas';
-import { type GameConfig, DIFFICULTY_PRESETS } from './logic/GameCore.ts';
+import {
+  type Board, type DifficultyBandType, type DifficultyGrade, type GameConfig, type GenerationProgress, type LatticeType,
+  type LoadedBoard, type NeighborhoodType, DIFFICULTY_PRESETS, MAX_DIMENSION, gradeBoard, gradePosition, parseBoard,
+  validateConfig
+} from './logic/GameCore.ts';
+import { getTopologyDefinition, listTopologies } from './logic/TopologyRegistry.ts';
+import { listLattices } from './logic/Lattice.ts';
+import { customOffsetErrors, formatOffsets, listNeighborhoods, parseOffsets, symmetrizeOffsets } from './logic/Neighborhood.ts';
+import { LEVEL_LABELS, formatTechniqueCounts, listDifficultyBands } from './logic/Difficulty.ts';
+import type { Hint } from './logic/Hint.ts';
+import { createReplay, parseReplay, serializeReplay, type Replay } from './logic/Replay.ts';
+import { loadSavedGame, type SavedGame } from './logic/SaveGame.ts';
+import {
+  bestTime, findPresetIndex, formatTime, loadStatistics, recordResult, storeStatistics, winRate,
+  type StatsEntry
+} from './logic/Statistics.ts';
+import { StatsTable, type StatsSelection } from './components/StatsTable';
+import { DailyCalendar } from './components/DailyCalendar';
+import {
+  dateKey, describeDailyChallenge, formatDailySummary, getDailyChallenge, loadDailyResults, recordDailyResult,
+  storeDailyResults, type DailyChallenge, type DailyResult
+} from './logic/Daily.ts';
+import { decodeShareCode, encodeShareCode, type SharedGame } from './logic/ShareCode.ts';
 import './App.css';
 
 function App() {
@@ -22,12 +44,81 @@ function App() {
   const [resetCounter, setResetCounter] = useState(0);
   const [recenterCounter, setRecenterCounter] = useState(0);
   const [zoomLevel, setZoomLevel] = useState(1.0);
+  // 3D表示（貼り合わせた曲面に盤面を貼って見せる）
+  const [surfaceView, setSurfaceView] = useState(false);
+  // 基本領域（元の盤面と辺の貼り合わせ）の表示
+  const [showFundamentalPolygon, setShowFundamentalPolygon] = useState(false);
+  // 自由指定の隣接ルールの入力欄
+  const [customOffsetsText, setCustomOffsetsText] = useState('1,0; 2,0; 0,1; 0,2');
+
+  // 盤面生成の進捗と中断
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [cancelCounter, setCancelCounter] = useState(0);
+
+  // 取り消し / やり直し
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [undoCounter, setUndoCounter] = useState(0);
+  const [redoCounter, setRedoCounter] = useState(0);
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+
+  // リプレイ（終了した盤面の書き出しと、読み込んだリプレイの再生）
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
+  const [finishedBoard, setFinishedBoard] = useState<Board | null>(null);
+  const [playback, setPlayback] = useState<{ replay: Replay, step: number } | null>(null);
+  const [isPlayingBack, setIsPlayingBack] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // 前回の途中保存（起動時に一度だけ読み込む）
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(() => loadSavedGame());
+  const [resumeGame, setResumeGame] = useState<SavedGame | null>(null);
+
+  // 盤面ファイルから読み込んだパズル（Try Again では同じ局面からやり直す）
+  const [puzzle, setPuzzle] = useState<LoadedBoard | null>(null);
+  const [puzzleStart, setPuzzleStart] = useState<{ board: Board } | null>(null);
+  const [puzzleError, setPuzzleError] = useState<string | null>(null);
+
+  // デイリーチャレンジ（日付ごとの結果は最初の1回だけ記録する）
+  const [today, setToday] = useState(() => dateKey(new Date()));
+  const [daily, setDaily] = useState<DailyChallenge | null>(null);
+  const [dailyResults, setDailyResults] = useState(() => loadDailyResults());
+  // 今回のゲームの結果（記録しなかったときは note にその理由）
+  const [dailyOutcome, setDailyOutcome] = useState<{ result: DailyResult, note: string | null } | null>(null);
+  const [showDaily, setShowDaily] = useState(false);
+  const todayChallenge = useMemo(() => getDailyChallenge(today), [today]);
+  const [hintsUsed, setHintsUsed] = useState(0);
+
+  // タイマーと成績
+  const [playStartedAt, setPlayStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [stats, setStats] = useState(() => loadStatistics());
+  const [lastResult, setLastResult] = useState<{
+    timeMs: number, entry: StatsEntry | null, isNewBest: boolean, grade: DifficultyGrade | null, practice: boolean
+  } | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [statsSelection, setStatsSelection] = useState<StatsSelection | null>(null);
+
+  // ヒント（表示中のメッセージ）
+  const [hintCounter, setHintCounter] = useState(0);
+  const [hintMessage, setHintMessage] = useState<string | null>(null);
+
+  // カスタム盤面の入力中の値（検証を通ったものだけ config に反映する）
+  const [customDraft, setCustomDraft] = useState({ width: '9', height: '9', mines: '10' });
+
+  // 共有コード
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [shareInput, setShareInput] = useState('');
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [loadedShare, setLoadedShare] = useState<SharedGame | null>(null);
+  const [sharedStart, setSharedStart] = useState<{ seed: number, startIndex: number } | null>(null);
 
   // --- アクション ---
   const handleTryAgain = () => {
     setResetCounter(c => c + 1);
     setGameState('INIT');
     setIsReviewing(false);
+    setPuzzleStart(puzzle && { board: puzzle.board });
+    // デイリーは同じ盤面でやり直す（結果は最初の1回だけ記録される）
+    setSharedStart(daily && { seed: daily.seed, startIndex: daily.startIndex });
   };
 
   const handleRecenter = () => {
@@ -37,8 +128,18 @@ function App() {
   const handleZoomIn = () => setZoomLevel(z => Math.min(2.0, z + 0.1));
   const handleZoomOut = () => setZoomLevel(z => Math.max(0.5, z - 0.1));
 
-  const handleBackToSettings = () => {
+  const handleOpenSettings = () => {
     setShowSettings(true);
+    setToday(dateKey(new Date()));
+  };
+
+  const handleBackToSettings = () => {
+    handleOpenSettings();
+    setPlayback(null);
+    setIsPlayingBack(false);
+    setPuzzle(null);
+    setPuzzleStart(null);
+    setDaily(null);
     setResetCounter(c => c + 1);
     setGameState('INIT');
     setIsReviewing(false);
@@ -51,6 +152,321 @@ function App() {
   const applyPreset = (presetIndex: number) => {
     const p = DIFFICULTY_PRESETS[presetIndex];
     setConfig(prev => ({ ...prev, width: p.width, height: p.height, mines: p.mines }));
+    syncCustomDraft(p);
+    setLoadedShare(null);
+  };
+
+  const syncCustomDraft = (c: { width: number, height: number, mines: number, customOffsets?: GameConfig['customOffsets'] }) => {
+    setCustomDraft({ width: String(c.width), height: String(c.height), mines: String(c.mines) });
+    if (c.customOffsets) setCustomOffsetsText(formatOffsets(c.customOffsets));
+  };
+
+  const draftConfig: GameConfig = useMemo(() => ({
+    ...config,
+    width: Number(customDraft.width),
+    height: Number(customDraft.height),
+    mines: Number(customDraft.mines)
+  }), [config, customDraft]);
+  // 複数の面からなる曲面は展開図で描く（3D表示はない）
+  const isPatchSurface = Boolean(getTopologyDefinition(config.topologyType).patches);
+
+  const validation = useMemo(
+    () => showSettings ? validateConfig(draftConfig) : { errors: [], warnings: [] },
+    [showSettings, draftConfig]
+  );
+
+  const updateCustomDraft = (field: 'width' | 'height' | 'mines', value: string) => {
+    const draft = { ...customDraft, [field]: value };
+    setCustomDraft(draft);
+    const next = { ...config, width: Number(draft.width), height: Number(draft.height), mines: Number(draft.mines) };
+    if (validateConfig(next).errors.length === 0) {
+      setConfig(next);
+      setLoadedShare(null);
+    }
+  };
+
+  // 入力中のカスタム値がそのトポロジーで有効なら一緒に反映する
+  const selectTopology = (topologyType: string) => {
+    const next = { ...draftConfig, topologyType };
+    setConfig(validateConfig(next).errors.length === 0 ? next : { ...config, topologyType });
+    setLoadedShare(null);
+  };
+
+  // 隣接ルールは正方形の格子でしか選べないので、ほかの格子に切り替えたら標準に戻す
+  const selectLattice = (lattice: LatticeType) => {
+    const rule = lattice === 'SQUARE' ? {} : { neighborhood: undefined, customOffsets: undefined };
+    const next = { ...draftConfig, lattice, ...rule };
+    setConfig(validateConfig(next).errors.length === 0 ? next : { ...config, lattice, ...rule });
+    setLoadedShare(null);
+  };
+
+  const selectNeighborhood = (neighborhood: NeighborhoodType) => {
+    const customOffsets = neighborhood === 'CUSTOM' ? parseOffsets(customOffsetsText) ?? [] : undefined;
+    const next = { ...draftConfig, neighborhood, customOffsets };
+    setConfig(validateConfig(next).errors.length === 0 ? next : { ...config, neighborhood, customOffsets });
+    setLoadedShare(null);
+  };
+
+  const selectDifficultyBand = (difficulty: DifficultyBandType) => {
+    const next = { ...draftConfig, difficulty };
+    setConfig(validateConfig(next).errors.length === 0 ? next : { ...config, difficulty });
+    setLoadedShare(null);
+  };
+
+  // 自由指定のずれ（"dx,dy; dx,dy" 形式）。読めない入力のうちは設定に反映しない
+  const updateCustomOffsets = (text: string) => {
+    setCustomOffsetsText(text);
+    const customOffsets = parseOffsets(text);
+    if (customOffsets === null) return;
+    const next = { ...draftConfig, neighborhood: 'CUSTOM' as const, customOffsets };
+    setConfig(validateConfig(next).errors.length === 0 ? next : { ...config, neighborhood: 'CUSTOM', customOffsets });
+    setLoadedShare(null);
+  };
+
+  // 密度（%）から地雷数を決める
+  const updateCustomDensity = (value: string) => {
+    const cells = Number(customDraft.width) * Number(customDraft.height);
+    const density = Number(value);
+    if (!Number.isFinite(density) || !Number.isFinite(cells)) return;
+    updateCustomDraft('mines', String(Math.round(cells * density / 100)));
+  };
+
+  const handleLoadShareCode = () => {
+    const shared = decodeShareCode(shareInput);
+    if (!shared) {
+      setShareError('Invalid share code.');
+      return;
+    }
+    setShareError(null);
+    setConfig(shared.config);
+    syncCustomDraft(shared.config);
+    setLoadedShare(shared);
+  };
+
+  const handleStartGame = () => {
+    setShowSettings(false);
+    setPlayback(null);
+    setIsPlayingBack(false);
+    setResetCounter(c => c + 1);
+    setShareCode(null);
+    // 共有コードを読み込んでいれば、その盤面で即座に開始する
+    setSharedStart(loadedShare ? { seed: loadedShare.seed, startIndex: loadedShare.startIndex } : null);
+    setLoadedShare(null);
+    setSavedGame(null);
+    setPuzzle(null);
+    setPuzzleStart(null);
+    setDaily(null);
+  };
+
+  const handleResumeGame = () => {
+    if (!savedGame) return;
+    setConfig(savedGame.replay.config);
+    syncCustomDraft(savedGame.replay.config);
+    setShowSettings(false);
+    setIsReviewing(false);
+    setPlayback(null);
+    setIsPlayingBack(false);
+    setShareCode(null);
+    setResumeGame(savedGame);
+    setSavedGame(null);
+    setPuzzle(null);
+    setPuzzleStart(null);
+    setDaily(null);
+  };
+
+  const handleBoardGenerated = useCallback((seed: number, startIndex: number) => {
+    setShareCode(encodeShareCode({ config, seed, startIndex }));
+    setLastSeed(seed);
+    setFinishedBoard(null);
+  }, [config]);
+
+  const handleExportReplay = () => {
+    if (!finishedBoard) return;
+    const replay = createReplay(finishedBoard, config, lastSeed);
+    downloadText(`replay-${config.topologyType.toLowerCase()}-${Date.now()}.json`, serializeReplay(replay));
+  };
+
+  const handleImportReplay = async (file: File) => {
+    const replay = parseReplay(await file.text());
+    if (!replay) {
+      setReplayError('Invalid or unsupported replay file.');
+      return;
+    }
+    setReplayError(null);
+    setConfig(replay.config);
+    syncCustomDraft(replay.config);
+    setShowSettings(false);
+    setIsReviewing(false);
+    setPlayback({ replay, step: 0 });
+    setIsPlayingBack(false);
+    setPuzzle(null);
+    setPuzzleStart(null);
+    setDaily(null);
+  };
+
+  // 盤面ファイル（JSON またはテキスト）を読み込み、生成を経ずにその局面から遊ぶ
+  const handleImportPuzzle = async (file: File) => {
+    const loaded = parseBoard(await file.text());
+    if ('error' in loaded) {
+      setPuzzleError(loaded.error);
+      return;
+    }
+    if (loaded.board.hasExploded() || loaded.board.checkWin()) {
+      setPuzzleError('This board is already finished: a mine is open or every safe cell is open.');
+      return;
+    }
+    setPuzzleError(null);
+    setConfig(loaded.config);
+    syncCustomDraft(loaded.config);
+    setShowSettings(false);
+    setIsReviewing(false);
+    setPlayback(null);
+    setIsPlayingBack(false);
+    setShareCode(null);
+    setLoadedShare(null);
+    setSavedGame(null);
+    setPuzzle(loaded);
+    setPuzzleStart({ board: loaded.board });
+    setDaily(null);
+  };
+
+  // その日のチャレンジを始める: 日付から決まる盤面を、決まった最初のクリックで即座に生成する
+  const handleStartDaily = (date: string) => {
+    const challenge = getDailyChallenge(date);
+    setConfig(challenge.config);
+    syncCustomDraft(challenge.config);
+    setShowSettings(false);
+    setShowDaily(false);
+    setIsReviewing(false);
+    setPlayback(null);
+    setIsPlayingBack(false);
+    setResetCounter(c => c + 1);
+    setShareCode(null);
+    setLoadedShare(null);
+    setSavedGame(null);
+    setPuzzle(null);
+    setPuzzleStart(null);
+    setDaily(challenge);
+    setSharedStart({ seed: challenge.seed, startIndex: challenge.startIndex });
+  };
+
+  const handleOpenDaily = () => {
+    setToday(dateKey(new Date()));
+    setShowDaily(true);
+  };
+
+  // 再生中の手数を変える（範囲外は丸める）
+  const seekPlayback = (step: number) => {
+    setPlayback(p => p && { ...p, step: clampStep(p.replay, step) });
+  };
+
+  const stepPlayback = (delta: number) => {
+    setPlayback(p => p && { ...p, step: clampStep(p.replay, p.step + delta) });
+  };
+
+  // 自動再生（最後まで進んだら止まる）
+  const playbackAtEnd = playback !== null && playback.step >= playback.replay.actions.length;
+  const playingBack = isPlayingBack && !playbackAtEnd;
+  useEffect(() => {
+    if (!playingBack) return;
+    const timer = setInterval(() => {
+      setPlayback(p => p && { ...p, step: clampStep(p.replay, p.step + 1) });
+    }, PLAYBACK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [playingBack]);
+
+  const handleGameStateChange = useCallback((state: 'INIT' | 'GENERATING' | 'PLAYING' | 'WON' | 'LOST') => {
+    setGameState(state);
+    if (state === 'GENERATING') setGenerationProgress(null);
+  }, []);
+
+  const handleCancelGeneration = () => {
+    setCancelCounter(c => c + 1);
+  };
+
+  const handleHint = useCallback((hint: Hint | null) => {
+    setHintMessage(hint ? hint.message : 'No logical deduction is available from here — you will have to guess.');
+    setHintsUsed(n => n + 1);
+  }, []);
+
+  const handleHintCleared = useCallback(() => setHintMessage(null), []);
+
+  const handlePlayStart = useCallback((startedAt: number) => {
+    setPlayStartedAt(startedAt);
+    setNow(Date.now());
+    setLastResult(null);
+    setHintsUsed(0);
+    setDailyOutcome(null);
+  }, []);
+
+  // ゲーム終了: タイムを確定し、練習モードでなく致命的な一手の取り消しもなければ成績に記録する
+  const handleGameEnd = useCallback((board: Board) => {
+    setFinishedBoard(board);
+    const log = board.history.log;
+    const endedAt = log.length > 0 ? log[log.length - 1].timestamp : Date.now();
+    const timeMs = playStartedAt === null ? 0 : Math.max(0, endedAt - playStartedAt);
+    const won = !board.hasExploded();
+
+    const practice = practiceMode || board.history.undidFatal;
+    const recorded = practice || puzzle ? null : recordResult(stats, config, won, timeMs, endedAt);
+    if (recorded) {
+      setStats(recorded.stats);
+      storeStatistics(recorded.stats);
+    }
+    // 最初のクリック（パズルなら読み込んだ局面）から解き直して、盤面の難易度を求める
+    const firstOpen = log.find(action => action.type === 'OPEN');
+    const grade = puzzle
+      ? gradePosition(puzzle.board, config)
+      : firstOpen && 'index' in firstOpen ? gradeBoard(board, config, firstOpen.index) : null;
+    setLastResult({ timeMs, entry: recorded?.entry ?? null, isNewBest: recorded?.isNewBest ?? false, grade, practice });
+
+    // デイリーは最初のクリック（自動）を除いた操作の回数も残す
+    if (daily) {
+      const clicks = log.slice(1).filter(action => action.type !== 'UNDO' && action.type !== 'REDO').length;
+      const result: DailyResult = { won, timeMs, clicks, hints: hintsUsed, finishedAt: endedAt };
+      // 記録するのは当日の最初の1回だけ。練習扱いのゲームや過去の日の再挑戦は記録しない
+      const note = practice ? 'Practice games are not recorded.'
+        : daily.date !== dateKey(new Date()) ? 'Only today\'s puzzle is recorded — past days are for practice.'
+        : dailyResults.results[daily.date] ? 'Already played on this day — only the first result is recorded.'
+        : null;
+      if (note === null) {
+        const next = recordDailyResult(dailyResults, daily.date, result);
+        setDailyResults(next);
+        storeDailyResults(next);
+      }
+      setDailyOutcome({ result, note });
+    }
+  }, [playStartedAt, practiceMode, puzzle, daily, dailyResults, hintsUsed, stats, config]);
+
+  const handleShowStats = () => {
+    const presetIndex = findPresetIndex(config);
+    setStatsSelection(presetIndex === null ? null : {
+      topologyType: config.topologyType, presetIndex, lattice: config.lattice ?? 'SQUARE'
+    });
+    setShowStats(true);
+  };
+
+  // プレイ中は時計を進める
+  useEffect(() => {
+    if (gameState !== 'PLAYING') return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [gameState]);
+
+  const elapsedMs = gameState === 'PLAYING' && playStartedAt !== null
+    ? Math.max(0, now - playStartedAt)
+    : (lastResult?.timeMs ?? 0);
+
+  const handleHistoryChange = useCallback((canUndo: boolean, canRedo: boolean) => {
+    setHistory({ canUndo, canRedo });
+  }, []);
+
+  const handleCopyShareCode = () => {
+    if (shareCode) navigator.clipboard?.writeText(shareCode);
+  };
+
+  const handleCopyText = (text: string) => {
+    navigator.clipboard?.writeText(text);
   };
 
   return (
@@ -59,12 +475,30 @@ function App() {
       <GameCanvas 
         config={config} 
         isDarkMode={isDarkMode}
-        onGameStateChange={setGameState}
+        onGameStateChange={handleGameStateChange}
         onMineCountChange={setMinesLeft}
         requestReset={resetCounter}
         requestRecenter={recenterCounter}
         zoomLevel={zoomLevel}
         isReviewing={isReviewing}
+        sharedStart={sharedStart}
+        onBoardGenerated={handleBoardGenerated}
+        onGenerationProgress={setGenerationProgress}
+        requestCancel={cancelCounter}
+        requestHint={hintCounter}
+        onHint={handleHint}
+        onHintCleared={handleHintCleared}
+        practiceMode={practiceMode}
+        requestUndo={undoCounter}
+        requestRedo={redoCounter}
+        onHistoryChange={handleHistoryChange}
+        onGameEnd={handleGameEnd}
+        onPlayStart={handlePlayStart}
+        playback={playback}
+        resumeGame={resumeGame}
+        puzzleStart={puzzleStart}
+        surfaceView={surfaceView}
+        showFundamentalPolygon={showFundamentalPolygon}
       />
 
       {/* ヘッダー */}
@@ -85,11 +519,28 @@ function App() {
           </h1>
           <div style={{ display: 'flex', gap: '8px' }}>
              <span style={badgeStyle(isDarkMode)}>
-               {config.topologyType}
+               {surfaceLabel(config)}
              </span>
+             {playback && (
+               <span style={badgeStyle(isDarkMode)}>▶ Replay</span>
+             )}
+             {puzzle && (
+               <span style={badgeStyle(isDarkMode)}>🧩 Puzzle</span>
+             )}
+             {daily && (
+               <span style={badgeStyle(isDarkMode)}>📅 Daily {daily.date}</span>
+             )}
+             {!playback && gameState !== 'INIT' && gameState !== 'GENERATING' && (
+               <span style={badgeStyle(isDarkMode)}>⏱ {formatTime(elapsedMs)}</span>
+             )}
              <span style={{ ...badgeStyle(isDarkMode), color: minesLeft < 0 ? '#ff4d4d' : 'inherit' }}>
                💣 {minesLeft}
              </span>
+             {shareCode && gameState !== 'INIT' && (
+               <button onClick={handleCopyShareCode} style={{ ...badgeStyle(isDarkMode), border: 'none', color: 'inherit', cursor: 'pointer' }} title={shareCode}>
+                 🔗 Copy Code
+               </button>
+             )}
           </div>
         </div>
         
@@ -97,6 +548,11 @@ function App() {
           {/* レビュー中はここにアクションボタンを表示 */}
           {isReviewing ? (
             <>
+              {finishedBoard && (
+                <button onClick={handleExportReplay} style={secondaryBtnStyle(isDarkMode)}>
+                  ⬇ Export Replay
+                </button>
+              )}
               <button onClick={handleBackToSettings} style={secondaryBtnStyle(isDarkMode)}>
                 Settings
               </button>
@@ -110,6 +566,17 @@ function App() {
                 <button onClick={handleZoomOut} style={btnStyle(isDarkMode)} title="Zoom Out">－</button>
                 <button onClick={handleZoomIn} style={btnStyle(isDarkMode)} title="Zoom In">＋</button>
               </div>
+              {gameState === 'PLAYING' && (
+                <div style={{ display: 'flex', gap: '4px' }}>
+                  <button onClick={() => setUndoCounter(c => c + 1)} disabled={!history.canUndo} style={{ ...btnStyle(isDarkMode), opacity: history.canUndo ? 1 : 0.4 }} title="Undo">↶</button>
+                  <button onClick={() => setRedoCounter(c => c + 1)} disabled={!history.canRedo} style={{ ...btnStyle(isDarkMode), opacity: history.canRedo ? 1 : 0.4 }} title="Redo">↷</button>
+                </div>
+              )}
+              {gameState === 'PLAYING' && (
+                <button onClick={() => setHintCounter(c => c + 1)} style={btnStyle(isDarkMode)} title="Show the next deducible cell">
+                  💡 Hint
+                </button>
+              )}
               <button 
                 onClick={handleRecenter} 
                 style={btnStyle(isDarkMode)} 
@@ -117,10 +584,23 @@ function App() {
               >
                 ⌖ Center
               </button>
+              <button
+                onClick={() => setSurfaceView(!surfaceView)}
+                disabled={isPatchSurface}
+                style={{ ...btnStyle(isDarkMode), opacity: isPatchSurface ? 0.5 : 1 }}
+                title={isPatchSurface
+                  ? 'Surfaces built from several patches are shown as a net only'
+                  : surfaceView ? 'Show the flat tiling' : 'Show the board wrapped on its 3D surface (drag to rotate)'}
+              >
+                {surfaceView && !isPatchSurface ? '▦ Flat' : '🧊 3D'}
+              </button>
+              <button onClick={handleShowStats} style={btnStyle(isDarkMode)}>
+                📊 Stats
+              </button>
               <button onClick={() => setIsDarkMode(!isDarkMode)} style={btnStyle(isDarkMode)}>
                 {isDarkMode ? '☀' : '🌙'}
               </button>
-              <button onClick={() => setShowSettings(true)} style={btnStyle(isDarkMode)}>
+              <button onClick={handleOpenSettings} style={btnStyle(isDarkMode)}>
                 ⚙ Settings
               </button>
             </>
@@ -128,17 +608,87 @@ function App() {
         </div>
       </header>
 
+      {/* リプレイ再生コントロール */}
+      {playback && !showSettings && (
+        <div style={{ ...hintPanelStyle(isDarkMode), alignItems: 'center' }}>
+          <button onClick={() => { setIsPlayingBack(false); seekPlayback(0); }} style={btnStyle(isDarkMode)} title="First">⏮</button>
+          <button onClick={() => { setIsPlayingBack(false); stepPlayback(-1); }} style={btnStyle(isDarkMode)} title="Step back">◀</button>
+          <button
+            onClick={() => {
+              if (playbackAtEnd) seekPlayback(0);
+              setIsPlayingBack(!playingBack);
+            }}
+            style={btnStyle(isDarkMode)}
+            title={playingBack ? 'Pause' : 'Play'}
+          >
+            {playingBack ? '⏸' : '▶'}
+          </button>
+          <button onClick={() => { setIsPlayingBack(false); stepPlayback(1); }} style={btnStyle(isDarkMode)} title="Step forward">▶|</button>
+          <input
+            type="range"
+            min={0}
+            max={playback.replay.actions.length}
+            value={playback.step}
+            onChange={(e) => { setIsPlayingBack(false); seekPlayback(Number(e.target.value)); }}
+            style={{ flex: 1 }}
+          />
+          <span style={{ whiteSpace: 'nowrap', fontSize: '0.85rem' }}>
+            {playback.step} / {playback.replay.actions.length}
+            {playback.step > 0 && ` · ${playback.replay.actions[playback.step - 1].type}`}
+          </span>
+          <button onClick={handleBackToSettings} style={btnStyle(isDarkMode)} title="Close replay">✕</button>
+        </div>
+      )}
+
+      {/* ヒントの説明 */}
+      {hintMessage && gameState === 'PLAYING' && (
+        <div style={hintPanelStyle(isDarkMode)}>
+          <span>💡 {hintMessage}</span>
+          <button onClick={() => setHintMessage(null)} style={{ ...btnStyle(isDarkMode), padding: '4px 10px' }} title="Close">
+            ×
+          </button>
+        </div>
+      )}
+
       {/* 設定モーダル */}
       {showSettings && (
         <div style={modalOverlayStyle}>
           <div style={modalContentStyle(isDarkMode)}>
             <h2 style={{ marginTop: 0 }}>Game Settings</h2>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Daily Challenge</h3>
+              <button onClick={() => handleStartDaily(today)} style={presetBtnStyle(isDarkMode, false)}>
+                <span style={{ fontWeight: 'bold' }}>📅 Play today's puzzle</span>
+                <span style={{ opacity: 0.8, fontSize: '0.9em' }}>
+                  {describeDailyChallenge(todayChallenge)}
+                  {dailyResults.results[today] && (dailyResults.results[today].won
+                    ? ` · ✅ ${formatTime(dailyResults.results[today].timeMs)}`
+                    : ' · 💥')}
+                </span>
+              </button>
+              <button onClick={handleOpenDaily} style={{ ...secondaryBtnStyle(isDarkMode), marginTop: '8px' }}>
+                🗓 History
+              </button>
+            </section>
+
+            {savedGame && (
+              <section style={{ marginBottom: '24px' }}>
+                <h3 style={sectionTitleStyle}>Saved Game</h3>
+                <button onClick={handleResumeGame} style={presetBtnStyle(isDarkMode, true)}>
+                  <span style={{ fontWeight: 'bold' }}>▶ Resume game</span>
+                  <span style={{ opacity: 0.8, fontSize: '0.9em' }}>
+                    {savedGame.replay.config.width}×{savedGame.replay.config.height} / 💣{savedGame.replay.config.mines} / {surfaceLabel(savedGame.replay.config)} / ⏱ {formatTime(savedGame.elapsedMs)}
+                  </span>
+                </button>
+              </section>
+            )}
             
             <section style={{ marginBottom: '24px' }}>
               <h3 style={sectionTitleStyle}>Difficulty</h3>
               <div style={{ display: 'grid', gap: '8px' }}>
                 {DIFFICULTY_PRESETS.map((p, idx) => {
-                  const isActive = config.width === p.width && config.mines === p.mines;
+                  const isActive = config.width === p.width && config.height === p.height && config.mines === p.mines;
                   return (
                     <button key={idx} onClick={() => applyPreset(idx)} style={presetBtnStyle(isDarkMode, isActive)}>
                       <span style={{ fontWeight: 'bold' }}>{p.label}</span>
@@ -149,13 +699,47 @@ function App() {
               </div>
             </section>
 
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Custom</h3>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px' }}>
+                <label style={fieldLabelStyle}>
+                  Width
+                  <input type="number" min={1} max={MAX_DIMENSION} value={customDraft.width}
+                    onChange={(e) => updateCustomDraft('width', e.target.value)} style={inputStyle(isDarkMode)} />
+                </label>
+                <label style={fieldLabelStyle}>
+                  Height
+                  <input type="number" min={1} max={MAX_DIMENSION} value={customDraft.height}
+                    onChange={(e) => updateCustomDraft('height', e.target.value)} style={inputStyle(isDarkMode)} />
+                </label>
+                <label style={fieldLabelStyle}>
+                  Mines
+                  <input type="number" min={1} value={customDraft.mines}
+                    onChange={(e) => updateCustomDraft('mines', e.target.value)} style={inputStyle(isDarkMode)} />
+                </label>
+                <label style={fieldLabelStyle}>
+                  Density %
+                  <input type="number" min={0} max={100} step={1}
+                    value={draftConfig.width * draftConfig.height > 0 ? Math.round(draftConfig.mines / (draftConfig.width * draftConfig.height) * 1000) / 10 : ''}
+                    onChange={(e) => updateCustomDensity(e.target.value)} style={inputStyle(isDarkMode)} />
+                </label>
+              </div>
+              {validation.errors.map((message) => (
+                <div key={message} style={{ color: '#ff4d4d', fontSize: '0.85rem', marginTop: '6px' }}>{message}</div>
+              ))}
+              {validation.warnings.map((message) => (
+                <div key={message} style={{ color: '#ff9800', fontSize: '0.85rem', marginTop: '6px' }}>⚠ {message}</div>
+              ))}
+            </section>
+
             <section style={{ marginBottom: '24px' }}>
               <h3 style={sectionTitleStyle}>Topology</h3>
               <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
-                {['SQUARE', 'TORUS', 'MOBIUS', 'KLEIN', 'PROJECTIVE'].map((type) => (
+                {listTopologies().map(({ type, label }) => (
                   <button 
                     key={type}
-                    onClick={() => setConfig(prev => ({ ...prev, topologyType: type as any }))}
+                    title={label}
+                    onClick={() => selectTopology(type)}
                     style={{
                       ...presetBtnStyle(isDarkMode, config.topologyType === type),
                       flex: '1 1 30%', 
@@ -171,10 +755,184 @@ function App() {
               </div>
             </section>
 
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Lattice</h3>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {listLattices().map(({ type, label }) => (
+                  <button
+                    key={type}
+                    title={label}
+                    onClick={() => selectLattice(type)}
+                    style={{
+                      ...presetBtnStyle(isDarkMode, (config.lattice ?? 'SQUARE') === type),
+                      flex: 1,
+                      justifyContent: 'center',
+                      textAlign: 'center',
+                      fontSize: '0.85rem',
+                      padding: '8px 4px'
+                    }}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Neighbourhood</h3>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                {listNeighborhoods().map(({ type, label }) => (
+                  <button
+                    key={type}
+                    title={label}
+                    disabled={(config.lattice ?? 'SQUARE') !== 'SQUARE'}
+                    onClick={() => selectNeighborhood(type)}
+                    style={{
+                      ...presetBtnStyle(isDarkMode, (config.neighborhood ?? 'MOORE') === type),
+                      flex: '1 1 30%',
+                      justifyContent: 'center',
+                      textAlign: 'center',
+                      fontSize: '0.85rem',
+                      padding: '8px 4px',
+                      opacity: (config.lattice ?? 'SQUARE') !== 'SQUARE' ? 0.5 : 1
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {(config.lattice ?? 'SQUARE') !== 'SQUARE' && (
+                <div style={{ fontSize: '0.85rem', opacity: 0.7, marginTop: '6px' }}>
+                  Hexagonal and triangular cells always count the cells that share an edge or corner.
+                </div>
+              )}
+              {config.neighborhood === 'CUSTOM' && (
+                <label style={{ ...fieldLabelStyle, marginTop: '8px' }}>
+                  Offsets (dx,dy; dx,dy — mirrored in both axes)
+                  <input type="text" value={customOffsetsText}
+                    onChange={(e) => updateCustomOffsets(e.target.value)} style={inputStyle(isDarkMode)} />
+                  <span style={{ fontSize: '0.85rem', opacity: 0.7 }}>
+                    {(() => {
+                      const offsets = parseOffsets(customOffsetsText);
+                      if (offsets === null) return 'Write each offset as dx,dy and separate them with semicolons.';
+                      if (customOffsetErrors(offsets).length > 0) return customOffsetErrors(offsets)[0];
+                      const mirrored = symmetrizeOffsets(offsets);
+                      return `${mirrored.length} neighbours: ${formatOffsets(mirrored)}`;
+                    })()}
+                  </span>
+                </label>
+              )}
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Difficulty Band</h3>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+                {listDifficultyBands().map(({ type, label }) => (
+                  <button
+                    key={type}
+                    title={label}
+                    onClick={() => selectDifficultyBand(type)}
+                    style={{
+                      ...presetBtnStyle(isDarkMode, (config.difficulty ?? 'ANY') === type),
+                      flex: '1 1 40%',
+                      justifyContent: 'center',
+                      textAlign: 'center',
+                      fontSize: '0.85rem',
+                      padding: '8px 4px'
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div style={{ fontSize: '0.85rem', opacity: 0.7, marginTop: '6px' }}>
+                Boards that are solvable but outside the band are discarded, so narrow bands take longer to generate.
+              </div>
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Options</h3>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input type="checkbox" checked={practiceMode} onChange={(e) => setPracticeMode(e.target.checked)} />
+                Practice mode (allow undoing a fatal click)
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer', marginTop: '8px' }}>
+                <input type="checkbox" checked={showFundamentalPolygon} onChange={(e) => setShowFundamentalPolygon(e.target.checked)} />
+                Fundamental polygon overlay (dim the copies and label the glued edges)
+              </label>
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Share Code</h3>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <input
+                  value={shareInput}
+                  onChange={(e) => setShareInput(e.target.value)}
+                  placeholder="TM1...."
+                  style={inputStyle(isDarkMode)}
+                />
+                <button onClick={handleLoadShareCode} style={btnStyle(isDarkMode)}>
+                  Load
+                </button>
+              </div>
+              {shareError && (
+                <div style={{ color: '#ff4d4d', fontSize: '0.85rem', marginTop: '6px' }}>{shareError}</div>
+              )}
+              {loadedShare && (
+                <div style={{ fontSize: '0.85rem', marginTop: '6px', opacity: 0.8 }}>
+                  Loaded: {loadedShare.config.width}×{loadedShare.config.height} / 💣{loadedShare.config.mines} / {surfaceLabel(loadedShare.config)}
+                </div>
+              )}
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Replay</h3>
+              <label style={{ ...btnStyle(isDarkMode), display: 'inline-block' }}>
+                📂 Import Replay
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportReplay(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {replayError && (
+                <div style={{ color: '#ff4d4d', fontSize: '0.85rem', marginTop: '6px' }}>{replayError}</div>
+              )}
+            </section>
+
+            <section style={{ marginBottom: '24px' }}>
+              <h3 style={sectionTitleStyle}>Puzzle</h3>
+              <label style={{ ...btnStyle(isDarkMode), display: 'inline-block' }}>
+                🧩 Import Puzzle
+                <input
+                  type="file"
+                  accept=".json,.txt,application/json,text/plain"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportPuzzle(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <div style={{ fontSize: '0.8rem', opacity: 0.7, marginTop: '6px' }}>
+                A board file (JSON or text grid) starts straight from its position, without random generation.
+              </div>
+              {puzzleError && (
+                <div style={{ color: '#ff4d4d', fontSize: '0.85rem', marginTop: '6px' }}>{puzzleError}</div>
+              )}
+            </section>
+
             <div style={{ textAlign: 'right', marginTop: '32px' }}>
               <button 
-                onClick={() => { setShowSettings(false); setResetCounter(c => c+1); }} 
-                style={primaryBtnStyle}
+                onClick={handleStartGame} 
+                disabled={validation.errors.length > 0}
+                style={{ ...primaryBtnStyle, opacity: validation.errors.length > 0 ? 0.5 : 1 }}
               >
                 Start Game
               </button>
@@ -193,6 +951,17 @@ function App() {
               animation: 'spin 1s linear infinite'
             }}></div>
             <div style={{ fontSize: '1.5rem', fontWeight: 'bold' }}>Generating...</div>
+            {generationProgress && (
+              <div style={{ marginTop: '8px', fontSize: '0.95rem', opacity: 0.85 }}>
+                Attempt {generationProgress.attempts} / {generationProgress.maxAttempts}
+                {' · '}
+                Best {Math.floor(generationProgress.bestSolveRatio * 100)}% solved
+                {generationProgress.outOfBand > 0 && ` · ${generationProgress.outOfBand} outside the difficulty band`}
+              </div>
+            )}
+            <button onClick={handleCancelGeneration} style={{ ...secondaryBtnStyle(true), marginTop: '24px', color: 'white' }}>
+              Cancel
+            </button>
           </div>
         </div>
       )}
@@ -207,11 +976,76 @@ function App() {
             }}>
               {gameState === 'WON' ? 'YOU WON!' : 'GAME OVER'}
             </h2>
-            <p style={{ marginBottom: '32px', fontSize: '1.1rem' }}>
+            <p style={{ marginBottom: shareCode ? '12px' : '32px', fontSize: '1.1rem' }}>
               {gameState === 'WON' ? 'All safe cells opened!' : 'You stepped on a mine.'}
             </p>
+            {lastResult && (
+              <div style={{ marginBottom: '16px' }}>
+                <div style={{ fontSize: '1.4rem', fontWeight: 'bold' }}>⏱ {formatTime(lastResult.timeMs)}</div>
+                {lastResult.isNewBest && (
+                  <div style={{ color: '#f5b800', fontWeight: 'bold', marginTop: '4px' }}>🏆 New best time!</div>
+                )}
+                {lastResult.entry ? (
+                  <div style={{ fontSize: '0.9rem', opacity: 0.8, marginTop: '4px' }}>
+                    Best {bestTime(lastResult.entry) === null ? '—' : formatTime(bestTime(lastResult.entry)!)}
+                    {' · '}Win rate {Math.round((winRate(lastResult.entry) ?? 0) * 100)}%
+                    {' · '}Streak {lastResult.entry.currentStreak}
+                  </div>
+                ) : (
+                  <div style={{ fontSize: '0.85rem', opacity: 0.6, marginTop: '4px' }}>
+                    {lastResult.practice ? 'Practice games are not recorded.'
+                      : puzzle ? 'Imported puzzles are not recorded.'
+                      : 'Only preset difficulties with the 8-cell neighbourhood and any difficulty band are recorded.'}
+                  </div>
+                )}
+                {lastResult.grade && (
+                  <div style={{ fontSize: '0.9rem', marginTop: '8px' }}>
+                    Grade <strong>{LEVEL_LABELS[lastResult.grade.level]}</strong> (score {lastResult.grade.score})
+                    <div style={{ fontSize: '0.8rem', opacity: 0.7, marginTop: '2px' }}>
+                      {formatTechniqueCounts(lastResult.grade.counts) || 'Solved by the first click alone'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            {daily && dailyOutcome && (
+              <div style={{ marginBottom: '16px' }}>
+                <pre style={{ fontSize: '0.85rem', margin: 0, whiteSpace: 'pre-wrap' }}>
+                  {formatDailySummary(daily, dailyOutcome.result)}
+                </pre>
+                {dailyOutcome.note && (
+                  <div style={{ fontSize: '0.85rem', opacity: 0.6, marginTop: '4px' }}>
+                    {dailyOutcome.note}
+                  </div>
+                )}
+                <button
+                  onClick={() => handleCopyText(formatDailySummary(daily, dailyOutcome.result))}
+                  style={{ ...secondaryBtnStyle(isDarkMode), marginTop: '8px' }}
+                >
+                  📋 Copy summary
+                </button>
+              </div>
+            )}
+            {shareCode && (
+              <p style={{ marginBottom: '32px', fontSize: '0.85rem', opacity: 0.8 }}>
+                Share code: <code style={{ userSelect: 'all' }}>{shareCode}</code>
+              </p>
+            )}
             
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'center', flexWrap: 'wrap' }}>
+              {/* 練習モードでは地雷を踏んだ操作を取り消せる */}
+              {gameState === 'LOST' && practiceMode && history.canUndo && (
+                <button onClick={() => setUndoCounter(c => c + 1)} style={primaryBtnStyle}>
+                  ↶ Undo
+                </button>
+              )}
+
+              {finishedBoard && (
+                <button onClick={handleExportReplay} style={secondaryBtnStyle(isDarkMode)}>
+                  ⬇ Export Replay
+                </button>
+              )}
+
               {/* 盤面を見るボタン */}
               <button onClick={handleViewBoard} style={secondaryBtnStyle(isDarkMode)}>
                 👁 View Board
@@ -224,15 +1058,78 @@ function App() {
               <button onClick={handleBackToSettings} style={{...secondaryBtnStyle(isDarkMode), border: 'none', opacity: 0.7, fontSize: '0.9rem'}}>
                 Settings
               </button>
+              <button onClick={handleShowStats} style={{...secondaryBtnStyle(isDarkMode), border: 'none', opacity: 0.7, fontSize: '0.9rem'}}>
+                📊 Stats
+              </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* 成績 */}
+      {showStats && (
+        <div style={modalOverlayStyle} onClick={() => setShowStats(false)}>
+          <div style={{ ...modalContentStyle(isDarkMode), maxWidth: '760px' }} onClick={(e) => e.stopPropagation()}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+              <h2 style={{ margin: 0 }}>Statistics</h2>
+              <button onClick={() => setShowStats(false)} style={btnStyle(isDarkMode)}>✕</button>
+            </div>
+            <StatsTable
+              stats={stats}
+              isDarkMode={isDarkMode}
+              selected={statsSelection}
+              onSelect={setStatsSelection}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* デイリーチャレンジの記録 */}
+      {showDaily && (
+        <div style={modalOverlayStyle} onClick={() => setShowDaily(false)}>
+          <div style={{ ...modalContentStyle(isDarkMode), maxWidth: '480px' }} onClick={(e) => e.stopPropagation()}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+              <h2 style={{ margin: 0 }}>Daily Challenge</h2>
+              <button onClick={() => setShowDaily(false)} style={btnStyle(isDarkMode)}>✕</button>
+            </div>
+            <DailyCalendar
+              daily={dailyResults}
+              isDarkMode={isDarkMode}
+              today={today}
+              onPlay={handleStartDaily}
+              onCopy={handleCopyText}
+            />
+          </div>
+        </div>
+      )}
+
     </div>
   );
 }
 
+const PLAYBACK_INTERVAL = 600;
+
+const clampStep = (replay: Replay, step: number) => Math.max(0, Math.min(replay.actions.length, step));
+
+// 盤面の曲面・格子・隣接ルール・難易度の範囲の表示（正方形の格子・周囲8マス・範囲なしは省略）
+function surfaceLabel(config: GameConfig): string {
+  const parts = [config.topologyType];
+  if (config.lattice && config.lattice !== 'SQUARE') parts.push(config.lattice);
+  if (config.neighborhood && config.neighborhood !== 'MOORE') parts.push(config.neighborhood);
+  if (config.difficulty && config.difficulty !== 'ANY') parts.push(config.difficulty);
+  return parts.join(' · ');
+}
+
+// テキストをファイルとしてダウンロードさせる
+function downloadText(fileName: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // --- Styles ---
 const btnStyle = (dark: boolean) => ({
   padding: '8px 16px',
@@ -301,10 +1198,48 @@ const modalContentStyle = (dark: boolean) => ({
   borderRadius: '16px',
   width: '100%',
   maxWidth: '400px',
+  maxHeight: '90vh',
+  overflowY: 'auto' as const,
+  boxSizing: 'border-box' as const,
   boxShadow: '0 20px 50px rgba(0,0,0,0.5)',
   border: `1px solid ${dark ? '#3a3b3c' : 'transparent'}`
 });
 
+const inputStyle = (dark: boolean) => ({
+  flex: 1,
+  minWidth: 0,
+  padding: '8px 12px',
+  background: dark ? '#3a3b3c' : '#f0f2f5',
+  color: 'inherit',
+  border: `1px solid ${dark ? '#4e4f50' : '#ddd'}`,
+  borderRadius: '8px',
+  fontSize: '0.9rem',
+  fontFamily: 'monospace'
+});
+
+const hintPanelStyle = (dark: boolean) => ({
+  position: 'absolute' as const, bottom: '24px', left: '50%',
+  transform: 'translateX(-50%)',
+  maxWidth: '640px', width: 'calc(100% - 48px)',
+  display: 'flex', gap: '12px', alignItems: 'flex-start', justifyContent: 'space-between',
+  padding: '12px 16px',
+  background: dark ? 'rgba(36,37,38, 0.95)' : 'rgba(255,255,255, 0.95)',
+  border: `1px solid ${dark ? '#3a3b3c' : '#e4e6eb'}`,
+  borderRadius: '12px',
+  boxShadow: '0 4px 16px rgba(0,0,0,0.15)',
+  fontSize: '0.95rem',
+  lineHeight: 1.5,
+  zIndex: 60
+});
+
+const fieldLabelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '4px',
+  fontSize: '0.8rem',
+  opacity: 0.9
+};
+
 const sectionTitleStyle = {
   fontSize: '0.9rem', 
   textTransform: 'uppercase' as const, 
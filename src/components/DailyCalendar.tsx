@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { formatTime } from '../logic/Statistics.ts';
+import {
+    dailyStreak, dateKey, describeDailyChallenge, formatDailySummary, getDailyChallenge,
+    type DailyResults
+} from '../logic/Daily.ts';
+
+interface DailyCalendarProps {
+    daily: DailyResults;
+    isDarkMode: boolean;
+    // 今日の日付 (YYYY-MM-DD)。これより後の日は遊べない
+    today: string;
+    onPlay: (date: string) => void;
+    onCopy: (text: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 月ごとのカレンダー（日ごとの結果）と、選んだ日のチャレンジ・結果の要約
+export const DailyCalendar: React.FC<DailyCalendarProps> = ({ daily, isDarkMode, today, onPlay, onCopy }) => {
+    const [selected, setSelected] = useState(today);
+    const [month, setMonth] = useState(() => {
+        const date = new Date(`${today}T00:00:00`);
+        return { year: date.getFullYear(), month: date.getMonth() };
+    });
+    const border = `1px solid ${isDarkMode ? '#3a3b3c' : '#e4e6eb'}`;
+    const highlight = isDarkMode ? 'rgba(77,171,245,0.2)' : 'rgba(24,119,242,0.1)';
+
+    const first = new Date(month.year, month.month, 1);
+    const daysInMonth = new Date(month.year, month.month + 1, 0).getDate();
+    // 月の初日の曜日の分だけ空けて並べる
+    const cells: (string | null)[] = [
+        ...new Array(first.getDay()).fill(null),
+        ...Array.from({ length: daysInMonth }, (_, i) => dateKey(new Date(month.year, month.month, i + 1))),
+    ];
+    const moveMonth = (delta: number) => {
+        const date = new Date(month.year, month.month + delta, 1);
+        setMonth({ year: date.getFullYear(), month: date.getMonth() });
+    };
+
+    const challenge = getDailyChallenge(selected);
+    const result = daily.results[selected];
+    const played = Object.values(daily.results);
+    const wins = played.filter(r => r.won).length;
+
+    return (
+        <div>
+            <div style={{ fontSize: '0.9rem', marginBottom: '12px', opacity: 0.8 }}>
+                Played {played.length} · Cleared {wins} · Streak {dailyStreak(daily, today)}
+            </div>
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <button onClick={() => moveMonth(-1)} style={navStyle(border)} title="Previous month">◀</button>
+                <strong>{first.toLocaleDateString(undefined, { year: 'numeric', month: 'long' })}</strong>
+                <button onClick={() => moveMonth(1)} style={navStyle(border)} title="Next month">▶</button>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', gap: '4px', fontSize: '0.8rem' }}>
+                {WEEKDAYS.map(day => (
+                    <div key={day} style={{ textAlign: 'center', opacity: 0.6, textTransform: 'uppercase' }}>{day}</div>
+                ))}
+                {cells.map((date, i) => {
+                    if (date === null) return <div key={`blank-${i}`} />;
+                    const entry = daily.results[date];
+                    const isFuture = date > today;
+                    return (
+                        <button
+                            key={date}
+                            onClick={() => setSelected(date)}
+                            disabled={isFuture}
+                            title={entry ? `${entry.won ? 'Cleared' : 'Lost'} in ${formatTime(entry.timeMs)}` : date}
+                            style={{
+                                padding: '6px 0',
+                                border: date === today ? '2px solid #1877f2' : border,
+                                borderRadius: '6px',
+                                color: 'inherit',
+                                cursor: isFuture ? 'default' : 'pointer',
+                                opacity: isFuture ? 0.35 : 1,
+                                background: date === selected ? highlight : 'transparent',
+                                display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2px'
+                            }}
+                        >
+                            <span>{Number(date.slice(8))}</span>
+                            <span style={{ fontSize: '0.75rem', minHeight: '1em' }}>
+                                {entry ? (entry.won ? '✅' : '💥') : ''}
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div style={{ marginTop: '16px', padding: '12px', border, borderRadius: '8px' }}>
+                <div style={{ fontWeight: 'bold' }}>{selected}</div>
+                <div style={{ fontSize: '0.9rem', opacity: 0.8, marginTop: '4px' }}>{describeDailyChallenge(challenge)}</div>
+                {result ? (
+                    <pre style={{ fontSize: '0.85rem', margin: '8px 0 0', whiteSpace: 'pre-wrap' }}>
+                        {formatDailySummary(challenge, result)}
+                    </pre>
+                ) : (
+                    <div style={{ fontSize: '0.85rem', opacity: 0.6, marginTop: '8px' }}>Not played yet.</div>
+                )}
+                <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                    <button onClick={() => onPlay(selected)} style={actionStyle(border)}>
+                        ▶ {result ? 'Play again (not recorded)' : 'Play'}
+                    </button>
+                    {result && (
+                        <button onClick={() => onCopy(formatDailySummary(challenge, result))} style={actionStyle(border)}>
+                            📋 Copy summary
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const navStyle = (border: string) => ({
+    padding: '4px 12px',
+    border,
+    borderRadius: '6px',
+    background: 'transparent',
+    color: 'inherit',
+    cursor: 'pointer'
+});
+
+const actionStyle = (border: string) => ({
+    padding: '8px 12px',
+    border,
+    borderRadius: '8px',
+    background: 'transparent',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontWeight: 600
+});
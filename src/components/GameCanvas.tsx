@@ -1,5 +1,14 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Board, generateBoardAsync, type GameConfig } from '../logic/GameCore.ts';
+import React, { useRef, useEffect, useEffectEvent, useState, useCallback, useMemo } from 'react';
+import { Board, centerCell, createTopology, randomSeed, type GameConfig, type GenerationProgress } from '../logic/GameCore.ts';
+import { settleGeneration } from '../logic/BoardGenerator.ts';
+import { findHint, type Hint } from '../logic/Hint.ts';
+import { buildReplayBoard, type Replay } from '../logic/Replay.ts';
+import { clearSavedGame, createSave, restoreBoard, storeSavedGame, type SavedGame } from '../logic/SaveGame.ts';
+import { getTopologyDefinition, tileOrientation, tilingPeriod } from '../logic/TopologyRegistry.ts';
+import { cellAtPoint, getLattice, mapLatticeCoordinate, visibleCells, type Point } from '../logic/Lattice.ts';
+import { buildSurfaceMesh, pickSurfaceCell, projectSurface, type ProjectedCell, type SurfaceCamera } from '../logic/Surface3D.ts';
+import { openPatchSides, patchCellAt, patchNetEdge, patchNetPoint, patchNetSeams, patchNetSize } from '../logic/PatchSurface.ts';
+import { cursorAt, describeCursorCell, describeCursorStep, moveCursor, type CursorDirection, type KeyboardCursor } from '../logic/Cursor.ts';
 
 interface GameCanvasProps {
     config: GameConfig;
@@ -10,43 +19,70 @@ interface GameCanvasProps {
     requestRecenter: number;
     zoomLevel: number;
     isReviewing: boolean;
+    // 共有コードから始める場合のシードと最初のクリック位置（変更されるたびに即座に生成する）
+    sharedStart: { seed: number, startIndex: number } | null;
+    onBoardGenerated: (seed: number, startIndex: number) => void;
+    onGenerationProgress: (progress: GenerationProgress) => void;
+    requestCancel: number;
+    requestHint: number;
+    onHint: (hint: Hint | null) => void;
+    onHintCleared: () => void;
+    // 練習モード: 地雷を踏んだ操作も取り消せる
+    practiceMode: boolean;
+    requestUndo: number;
+    requestRedo: number;
+    onHistoryChange: (canUndo: boolean, canRedo: boolean) => void;
+    onGameEnd: (board: Board) => void;
+    // タイマーの起点（最初のクリックの時刻。再開時は保存済みの経過時間だけ過去にずらした時刻）
+    onPlayStart: (startedAt: number) => void;
+    // リプレイ再生中は、記録の最初の step 手を適用した盤面を表示し、操作を受け付けない
+    playback: { replay: Replay, step: number } | null;
+    // 保存されたゲームから再開する（変更されるたびに復元する）
+    resumeGame: SavedGame | null;
+    // 読み込んだ盤面の局面から始める（変更されるたびに、盤面を複製して始め直す）
+    puzzleStart: { board: Board } | null;
+    // 3D表示: 盤面を貼り合わせた曲面（トーラス・メビウスの輪など）に貼って描く。ドラッグで回転
+    surfaceView: boolean;
+    // 基本領域の表示: 元の盤面以外を暗くし、辺の貼り合わせを矢印と記号 (a, b) で示す
+    showFundamentalPolygon: boolean;
 }
 
 const BASE_CELL_SIZE = 40;
 
-// 座標変換ヘルパー
+// 3D表示の初期の向きと、ドラッグ量あたりの回転角
+const DEFAULT_SURFACE_CAMERA: SurfaceCamera = { yaw: 0, pitch: -0.9 };
+const ROTATE_SPEED = 0.01;
+// 曲面上のマスが小さすぎる場合は中身を描かない
+const MIN_SURFACE_LABEL_SIZE = 8;
+
+// マスへの操作: 開く / 旗 / コード（周囲をまとめて開く）
+type CellAction = 'OPEN' | 'FLAG' | 'CHORD';
+
+// キーボード操作: 矢印キーでカーソルを動かし、Enter / Space で開く、F で旗、C でコード
+const ARROW_KEYS: Record<string, CursorDirection> = { ArrowLeft: 'LEFT', ArrowRight: 'RIGHT', ArrowUp: 'UP', ArrowDown: 'DOWN' };
+const ACTION_KEYS: Record<string, CellAction> = { Enter: 'OPEN', ' ': 'OPEN', f: 'FLAG', F: 'FLAG', c: 'CHORD', C: 'CHORD' };
+const KEYBOARD_HELP = 'Minesweeper board. Arrow keys move the cursor, following the glued edges. Enter or Space opens, F flags, C chords.';
+// カーソルを画面の端からこのマス数より内側に保つ（上はヘッダーの分も空ける）
+const CURSOR_MARGIN = 1.5;
+const HEADER_HEIGHT = 80;
+
+// 画面には出さず、読み上げだけに使う要素
+const visuallyHidden: React.CSSProperties = {
+    position: 'absolute', width: 1, height: 1, margin: -1, padding: 0, overflow: 'hidden',
+    clip: 'rect(0 0 0 0)', whiteSpace: 'nowrap', border: 0
+};
+
+// 座標変換ヘルパー（貼り合わせ規則は TopologyRegistry の定義、格子の形は Lattice を参照）
 function mapCoordinates(col: number, row: number, config: GameConfig): { tx: number, ty: number, isValid: boolean } {
-    const w = config.width;
-    const h = config.height;
-    
-    // 何周目か
-    const loopX = Math.floor(col / w);
-    const loopY = Math.floor(row / h);
+    const def = getTopologyDefinition(config.topologyType);
+    const { nx, ny, valid } = mapLatticeCoordinate(getLattice(config.lattice), def, config.width, config.height, col, row);
+    return { tx: nx, ty: ny, isValid: valid };
+}
 
-    let tx = ((col % w) + w) % w;
-    let ty = ((row % h) + h) % h;
-    
-    let isValid = true;
-
-    switch (config.topologyType) {
-        case 'SQUARE':
-            if (loopX !== 0 || loopY !== 0) isValid = false;
-            break;
-        case 'TORUS':
-            break;
-        case 'MOBIUS':
-            if (loopY !== 0) isValid = false;
-            else if (loopX % 2 !== 0) ty = h - 1 - ty;
-            break;
-        case 'KLEIN':
-            if (loopY % 2 !== 0) tx = w - 1 - tx;
-            break;
-        case 'PROJECTIVE':
-            if (loopX % 2 !== 0) ty = h - 1 - ty;
-            if (loopY % 2 !== 0) tx = w - 1 - tx;
-            break;
-    }
-    return { tx, ty, isValid };
+function tracePolygon(ctx: CanvasRenderingContext2D, points: readonly Point[]) {
+    ctx.beginPath();
+    points.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.closePath();
 }
 
 const THEME = {
@@ -74,8 +110,49 @@ const THEME = {
 
 const NUMBER_COLORS = ['', '#1877f2', '#42b72a', '#f5533d', '#7b1fa2', '#ff9800', '#00bcd4', '#000000', '#7f8c8d'];
 
+// 9 以上の数字（周囲8マスより広い隣接ルール）は色相を黄金角ずつずらして見分ける
+function numberColor(count: number): string {
+    return NUMBER_COLORS[count] ?? `hsl(${Math.round((count * 137.5) % 360)}, 70%, 45%)`;
+}
+
+// 2桁の数字はマスに収まるよう小さくする
+function numberFontScale(count: number): number {
+    return count >= 10 ? 0.75 : 1;
+}
+
+// 貼り合わせの矢印の色: 左右の辺の組（矢じり1つ, a）と上下の辺の組（矢じり2つ, b）
+// 反転したコピーには、反転の原因になった辺の組の色を薄く重ねる
+const GLUING_COLORS = { HORIZONTAL: '#e67e22', VERTICAL: '#9b59b6' };
+const FLIP_TINT_ALPHA = '1f';
+
+// 複数の面からなる曲面で、展開図上で離れている貼り合わせの色（貼り合わせごとに順に使う）
+const SEAM_COLORS = ['#e67e22', '#9b59b6', '#16a085', '#c0392b', '#2980b9', '#d35400', '#8e44ad', '#27ae60'];
+
+// ホバー中のマス（すべてのコピー）とその隣接マスの色付けの濃さ
+const HOVER_ALPHA = '40';
+const HOVER_NEIGHBOR_ALPHA = '24';
+
+// (x1, y1) から (x2, y2) への矢印。heads 個の矢じりを終点側に並べる
+function drawArrow(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, heads: number, size: number) {
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    for (let i = 0; i < heads; i++) {
+        const hx = x2 - Math.cos(angle) * size * i;
+        const hy = y2 - Math.sin(angle) * size * i;
+        ctx.moveTo(hx - Math.cos(angle - Math.PI / 6) * size, hy - Math.sin(angle - Math.PI / 6) * size);
+        ctx.lineTo(hx, hy);
+        ctx.lineTo(hx - Math.cos(angle + Math.PI / 6) * size, hy - Math.sin(angle + Math.PI / 6) * size);
+    }
+    ctx.stroke();
+}
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({ 
-    config, isDarkMode, onGameStateChange, onMineCountChange, requestReset, requestRecenter, zoomLevel, isReviewing 
+    config, isDarkMode, onGameStateChange, onMineCountChange, requestReset, requestRecenter, zoomLevel, isReviewing,
+    sharedStart, onBoardGenerated, onGenerationProgress, requestCancel, requestHint, onHint, onHintCleared,
+    practiceMode, requestUndo, requestRedo, onHistoryChange, onGameEnd, onPlayStart, playback, resumeGame, puzzleStart,
+    surfaceView, showFundamentalPolygon
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const CELL_SIZE = BASE_CELL_SIZE * zoomLevel;
@@ -85,9 +162,68 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const isDragging = useRef(false);
     const lastMousePos = useRef({ x: 0, y: 0 });
     const dragStartPos = useRef({ x: 0, y: 0 });
+    // 左右同時押しのコード後、もう片方のボタンを離したときの操作を無視する
+    const suppressNextUp = useRef(false);
+    // 途中保存用: 盤面のシードと、経過時間の起点（再開時は保存済みの経過時間だけ過去にずらす）
+    const seedRef = useRef<number | null>(null);
+    const playStartRef = useRef(0);
+    // 生成中のワーカーを止めるためのコントローラ
+    const generationAbort = useRef<AbortController | null>(null);
+    // 3D表示の向きと、直前に描いたマスの投影（クリック位置の判定に使う）
+    const surfaceCameraRef = useRef<SurfaceCamera>({ ...DEFAULT_SURFACE_CAMERA });
+    const surfaceCellsRef = useRef<ProjectedCell[]>([]);
+    // マウスが乗っているマスの番号（毎フレームの描画で参照するので Ref で持つ）
+    const hoverCellRef = useRef<number | null>(null);
+    // キーボードのカーソル（キー操作を始めるまで、またはマウスを使っている間は描かない）
+    const cursorRef = useRef<KeyboardCursor | null>(null);
+    const showCursorRef = useRef(false);
+    // スクリーンリーダーに読み上げさせる文（ARIA のライブリージョン）
+    const [announcement, setAnnouncement] = useState('');
     
     const [board, setBoard] = useState<Board | null>(null);
     const [gameState, setGameState] = useState<'INIT' | 'GENERATING' | 'PLAYING' | 'WON' | 'LOST'>('INIT');
+    const [hint, setHint] = useState<Hint | null>(null);
+
+    const playbackBoard = useMemo(
+        () => playback ? buildReplayBoard(playback.replay, playback.step) : null,
+        [playback]
+    );
+    // 再生中の盤面で直前に操作されたマス
+    const playbackCell = useMemo(() => {
+        if (!playback) return null;
+        const last = playback.replay.actions[playback.step - 1];
+        return last && 'index' in last ? last.index : null;
+    }, [playback]);
+    
+    // ホバー時の隣接マスの表示用（盤面の生成前から使えるよう、設定から作る）
+    const topology = useMemo(
+        () => createTopology(config),
+        [config]
+    );
+    const lattice = topology.lattice;
+    // 複数の面からなる曲面は、無限スクロールせずに展開図を1つ描く
+    const patchLayout = topology.definition.patches ?? null;
+    // 盤面1枚分（展開図なら全体）の大きさ（px）
+    const tileSize = patchLayout
+        ? patchNetSize(patchLayout, config.width, config.height)
+        : lattice.tileSize(config.width, config.height);
+    const boardW = tileSize.width * CELL_SIZE;
+    const boardH = tileSize.height * CELL_SIZE;
+
+    // 展開図に描く曲面は3D表示に対応していない
+    const surfaceMesh = useMemo(
+        () => surfaceView && !patchLayout
+            ? buildSurfaceMesh(getTopologyDefinition(config.topologyType), lattice, config.width, config.height)
+            : null,
+        [surfaceView, patchLayout, config, lattice]
+    );
+
+    // 格子の (col, row) に描くマスの番号（開いた端の向こうや展開図の外なら null）
+    const indexAt = useCallback((col: number, row: number): number | null => {
+        if (patchLayout) return patchCellAt(patchLayout, config.width, config.height, col, row);
+        const { tx, ty, isValid } = mapCoordinates(col, row, config);
+        return isValid ? ty * config.width + tx : null;
+    }, [patchLayout, config]);
     
     const colors = isDarkMode ? THEME.DARK : THEME.LIGHT;
 
@@ -95,15 +231,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const calculateCenterPosition = useCallback(() => {
         const screenW = window.innerWidth;
         const screenH = window.innerHeight;
-        const boardW = config.width * CELL_SIZE;
-        const boardH = config.height * CELL_SIZE;
         
         const centerX = Math.floor((screenW - boardW) / 2);
         const centerY = Math.floor((screenH - boardH) / 2);
         const safeY = Math.max(80, centerY);
         
         return { x: centerX, y: safeY };
-    }, [config.width, config.height, CELL_SIZE]);
+    }, [boardW, boardH]);
 
     // Recenter リクエスト監視（ズーム変更時やボタン押下時）
     useEffect(() => {
@@ -114,6 +248,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         // しかし、特定箇所を見たい場合に勝手に動くと困る。
         // ここでは「Centerボタン」等の明示的なリクエストのみで動くようにする。
         cameraRef.current = calculateCenterPosition();
+        surfaceCameraRef.current = { ...DEFAULT_SURFACE_CAMERA };
     }, [requestRecenter, calculateCenterPosition]);
 
     // リセット処理（Config変更、リセットボタン）
@@ -121,7 +256,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     useEffect(() => {
         cameraRef.current = calculateCenterPosition();
         
+        generationAbort.current?.abort();
+        generationAbort.current = null;
         setBoard(null);
+        setHint(null);
+        cursorRef.current = null;
+        onHintCleared();
+        onHistoryChange(false, false);
         setGameState('INIT');
         onGameStateChange('INIT');
         onMineCountChange(config.mines);
@@ -129,6 +270,115 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [config, requestReset, onGameStateChange, onMineCountChange /* CELL_SIZE, calculateCenterPosition はあえて外す */]);
 
+    // Hint ボタン（押されたときの盤面で探す）
+    const showHint = useEffectEvent(() => {
+        if (!board || gameState !== 'PLAYING') return;
+        const found = findHint(board, config.mines);
+        setHint(found);
+        onHint(found);
+    });
+    useEffect(() => {
+        showHint();
+    }, [requestHint]);
+
+    // 取り消し / やり直し（地雷を踏んだ後は練習モードのときだけ）
+    const undoMove = useEffectEvent(() => {
+        if (!board || (gameState !== 'PLAYING' && gameState !== 'LOST')) return;
+        const newBoard = board.clone();
+        if (newBoard.undo(practiceMode)) commitBoard(newBoard);
+    });
+    useEffect(() => {
+        undoMove();
+    }, [requestUndo]);
+
+    const redoMove = useEffectEvent(() => {
+        if (!board || gameState !== 'PLAYING') return;
+        const newBoard = board.clone();
+        if (newBoard.redo()) commitBoard(newBoard);
+    });
+    useEffect(() => {
+        redoMove();
+    }, [requestRedo]);
+
+    // 練習モードの切り替えで取り消せる範囲が変わる
+    const reportHistory = useEffectEvent((allowFatal: boolean) => {
+        if (board) onHistoryChange(board.history.canUndo(allowFatal), board.history.canRedo());
+    });
+    useEffect(() => {
+        reportHistory(practiceMode);
+    }, [practiceMode]);
+
+    // Cancel ボタン
+    useEffect(() => {
+        generationAbort.current?.abort();
+    }, [requestCancel]);
+
+    // アンマウント時に生成を止める
+    useEffect(() => () => generationAbort.current?.abort(), []);
+
+    // 共有コードからの開始（リセット処理の後に実行されるよう、ここで宣言する）
+    const startShared = useEffectEvent((start: { seed: number, startIndex: number }) => {
+        startGame(start.startIndex, start.seed);
+    });
+    useEffect(() => {
+        if (sharedStart) startShared(sharedStart);
+    }, [sharedStart]);
+
+    // 保存されたゲームの再開（リセット処理の後に実行されるよう、ここで宣言する）
+    const resume = useEffectEvent((saved: SavedGame) => {
+        const restored = restoreBoard(saved);
+        if (!restored) {
+            clearSavedGame();
+            return;
+        }
+        seedRef.current = saved.replay.seed;
+        playStartRef.current = Date.now() - saved.elapsedMs;
+        onPlayStart(playStartRef.current);
+        cameraRef.current = { ...saved.camera };
+
+        const first = saved.replay.actions[0];
+        if (seedRef.current !== null && first && 'index' in first) {
+            onBoardGenerated(seedRef.current, first.index);
+        }
+        setBoard(restored);
+        setGameState('PLAYING');
+        onGameStateChange('PLAYING');
+        onMineCountChange(config.mines - restored.countFlags());
+        onHistoryChange(restored.history.canUndo(practiceMode), restored.history.canRedo());
+    });
+    useEffect(() => {
+        if (resumeGame) resume(resumeGame);
+    }, [resumeGame]);
+
+    // 読み込んだ盤面から始める（リセット処理の後に実行されるよう、ここで宣言する）
+    const startPuzzle = useEffectEvent((puzzle: Board) => {
+        const loaded = puzzle.clone();
+        seedRef.current = null;
+        playStartRef.current = Date.now();
+        onPlayStart(playStartRef.current);
+
+        setBoard(loaded);
+        setGameState('PLAYING');
+        onGameStateChange('PLAYING');
+        onMineCountChange(config.mines - loaded.countFlags());
+        onHistoryChange(loaded.history.canUndo(practiceMode), loaded.history.canRedo());
+        saveProgress(loaded);
+    });
+    useEffect(() => {
+        if (puzzleStart) startPuzzle(puzzleStart.board);
+    }, [puzzleStart]);
+
+    // キーボードで操作しているときは、盤面が変わるたびにカーソルのマスの様子と勝敗を伝える
+    const announceCursor = useEffectEvent(() => {
+        const cursor = cursorRef.current;
+        if (!showCursorRef.current || !cursor || !board) return;
+        const outcome = gameState === 'WON' ? ' — all safe cells opened, you won' : gameState === 'LOST' ? ' — you stepped on a mine' : '';
+        setAnnouncement(describeAt(cursor.index) + outcome);
+    });
+    useEffect(() => {
+        announceCursor();
+    }, [board, gameState]);
+
     // --- 描画ループ ---
     const draw = useCallback(() => {
         const canvas = canvasRef.current;
@@ -140,98 +390,403 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.fillStyle = colors.BG;
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+        // 再生中はリプレイの盤面を表示し、地雷を踏んだ時点で地雷を見せる
+        const shown = playbackBoard ?? board;
+        const revealMines = playbackBoard ? playbackBoard.hasExploded() : (gameState === 'LOST' || isReviewing);
+
+        // マスの表示状態（盤面がまだなければすべて未開放）
+        const cellState = (idx: number) => {
+            if (!shown) return { status: 'HIDDEN', neighbors: 0, isMine: false };
+            const isMine = shown.mines[idx];
+            const status = revealMines && isMine && shown.status[idx] === 'HIDDEN' ? 'REVEALED_MINE' : shown.status[idx];
+            return { status, neighbors: shown.neighborMineCounts[idx], isMine };
+        };
+
+        const cellFill = (status: string, isMine: boolean) => {
+            if (status === 'OPENED') return isMine ? colors.MINE_BG : colors.CELL_OPEN;
+            if (status === 'REVEALED_MINE') return isDarkMode ? '#50101088' : '#ffcccc88';
+            return colors.CELL_HIDDEN;
+        };
+
+        // ヒントの対象マス（安全なら緑、地雷なら赤）と根拠の数字マス（黄）、再生中の直前の操作のマスの枠の色
+        const highlightColor = (idx: number) => {
+            if (hint && idx === hint.cell) return hint.isMine ? '#ff4d4d' : '#42b72a';
+            if (hint && hint.sources.includes(idx)) return '#f5b800';
+            if (playbackCell !== null && idx === playbackCell) return colors.MAIN_BORDER;
+            return null;
+        };
+
+        // キーボードのカーソルは破線の太枠で描く（平面では今いるコピーだけ）
+        const cursor = showCursorRef.current ? cursorRef.current : null;
+        const strokeCursor = () => {
+            ctx.strokeStyle = colors.MAIN_BORDER;
+            ctx.lineWidth = 4;
+            ctx.setLineDash([6, 4]);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        };
+
+        // ホバー中のマスと、その数字が数える隣接マス（ひねった辺の向こうのコピーも含めて色付けする）
+        const hovered = hoverCellRef.current;
+        const hoveredNeighbors = new Set(hovered !== null ? topology.getNeighbors(hovered) : []);
+        const hoverTint = (idx: number) => {
+            if (idx === hovered) return colors.MAIN_BORDER + HOVER_ALPHA;
+            if (hoveredNeighbors.has(idx)) return colors.MAIN_BORDER + HOVER_NEIGHBOR_ALPHA;
+            return null;
+        };
+
+        if (surfaceMesh) {
+            // 3D表示: 奥のマスから順に塗り重ねる
+            const cells = projectSurface(
+                surfaceMesh, surfaceCameraRef.current,
+                canvas.width / 2, canvas.height / 2,
+                Math.min(canvas.width, canvas.height) * 0.4 * zoomLevel
+            );
+            surfaceCellsRef.current = cells;
+
+            for (const cell of cells) {
+                const { status, neighbors, isMine } = cellState(cell.index);
+                ctx.beginPath();
+                cell.outline.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+                ctx.closePath();
+                ctx.fillStyle = cellFill(status, isMine);
+                ctx.fill();
+                // 斜めを向いたマスほど暗くして立体感を出す
+                ctx.fillStyle = `rgba(0,0,0,${((1 - cell.facing) * 0.45).toFixed(3)})`;
+                ctx.fill();
+                const tint = hoverTint(cell.index);
+                if (tint) {
+                    ctx.fillStyle = tint;
+                    ctx.fill();
+                }
+                ctx.strokeStyle = colors.CELL_BORDER;
+                ctx.lineWidth = 1;
+                ctx.stroke();
+
+                const highlight = highlightColor(cell.index);
+                if (highlight) {
+                    ctx.strokeStyle = highlight;
+                    ctx.lineWidth = 3;
+                    ctx.stroke();
+                }
+                if (cursor && cell.index === cursor.index) strokeCursor();
+
+                if (cell.size < MIN_SURFACE_LABEL_SIZE) continue;
+                const [cx, cy] = cell.center;
+                const fontSize = Math.round(cell.size * 0.5);
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                if ((status === 'OPENED' || status === 'REVEALED_MINE') && isMine) {
+                    ctx.fillStyle = isDarkMode ? '#ff4d4d' : '#333';
+                    ctx.beginPath();
+                    ctx.arc(cx, cy, cell.size / 3.5, 0, Math.PI * 2);
+                    ctx.fill();
+                } else if (status === 'FLAGGED') {
+                    ctx.fillStyle = colors.FLAG;
+                    ctx.font = `${fontSize}px Arial`;
+                    ctx.fillText(revealMines && !isMine ? '❌' : '🚩', cx, cy);
+                } else if (status === 'OPENED' && neighbors > 0) {
+                    ctx.fillStyle = numberColor(neighbors);
+                    ctx.font = `bold ${Math.round(fontSize * numberFontScale(neighbors))}px sans-serif`;
+                    ctx.fillText(neighbors.toString(), cx, cy);
+                }
+            }
+            return;
+        }
+
         const cam = cameraRef.current;
 
-        // 描画範囲の計算
-        const startCol = Math.floor(-cam.x / CELL_SIZE);
-        const startRow = Math.floor(-cam.y / CELL_SIZE);
-        const endCol = startCol + Math.ceil(canvas.width / CELL_SIZE) + 1;
-        const endRow = startRow + Math.ceil(canvas.height / CELL_SIZE) + 1;
+        // 描画範囲の計算（格子の平面座標はマス1つ分が1）
+        const { startCol, endCol, startRow, endRow } = visibleCells(
+            lattice,
+            -cam.x / CELL_SIZE, -cam.y / CELL_SIZE,
+            (canvas.width - cam.x) / CELL_SIZE, (canvas.height - cam.y) / CELL_SIZE
+        );
+        const toScreen = ([x, y]: Point): Point => [Math.floor(x * CELL_SIZE + cam.x), Math.floor(y * CELL_SIZE + cam.y)];
+        // 数字や印の大きさ（正方形のマスなら CELL_SIZE）
+        const markSize = CELL_SIZE * lattice.labelScale;
+        // 強調の枠は枠線から2px 内側に描く
+        const insetScale = Math.max(0, 1 - 4 / CELL_SIZE);
 
         // マスの描画
         for (let row = startRow; row <= endRow; row++) {
             for (let col = startCol; col <= endCol; col++) {
+                const idx = indexAt(col, row);
+                if (idx === null) continue;
+
                 // スクリーン描画位置
-                const px = Math.floor(col * CELL_SIZE + cam.x);
-                const py = Math.floor(row * CELL_SIZE + cam.y);
-
-                const { tx, ty, isValid } = mapCoordinates(col, row, config);
-
-                if (!isValid) continue;
-
-                // 盤面データ取得
-                let status = 'HIDDEN';
-                let neighbors = 0;
-                let isMine = false;
-                
-                if (board) {
-                    const idx = ty * config.width + tx;
-                    status = board.status[idx];
-                    neighbors = board.neighborMineCounts[idx];
-                    isMine = board.mines[idx];
-                    
-                    if ((gameState === 'LOST' || isReviewing) && isMine && status === 'HIDDEN') {
-                        status = 'REVEALED_MINE'; 
-                    }
-                }
+                const polygon = lattice.cellPolygon(col, row).map(toScreen);
+                const [ux, uy] = lattice.cellCenter(col, row);
+                const cx = ux * CELL_SIZE + cam.x;
+                const cy = uy * CELL_SIZE + cam.y;
+
+                const { status, neighbors, isMine } = cellState(idx);
 
-                // 色決定
-                if (status === 'OPENED') {
-                    ctx.fillStyle = isMine ? colors.MINE_BG : colors.CELL_OPEN;
-                } else if (status === 'REVEALED_MINE') {
-                    ctx.fillStyle = isDarkMode ? '#50101088' : '#ffcccc88'; 
-                } else {
-                    ctx.fillStyle = colors.CELL_HIDDEN;
+                tracePolygon(ctx, polygon);
+                ctx.fillStyle = cellFill(status, isMine);
+                ctx.fill();
+                const tint = hoverTint(idx);
+                if (tint) {
+                    ctx.fillStyle = tint;
+                    ctx.fill();
                 }
-                ctx.fillRect(px, py, CELL_SIZE, CELL_SIZE);
 
                 // 枠線
                 ctx.strokeStyle = colors.CELL_BORDER;
                 ctx.lineWidth = 1;
-                ctx.strokeRect(px, py, CELL_SIZE, CELL_SIZE);
+                ctx.stroke();
 
                 // 中身
                 if ((status === 'OPENED' || status === 'REVEALED_MINE') && isMine) {
                     ctx.fillStyle = isDarkMode ? '#ff4d4d' : '#333';
                     ctx.beginPath();
-                    ctx.arc(px + CELL_SIZE/2, py + CELL_SIZE/2, CELL_SIZE/3.5, 0, Math.PI*2);
+                    ctx.arc(cx, cy, markSize/3.5, 0, Math.PI*2);
                     ctx.fill();
                 } else if (status === 'FLAGGED') {
                     ctx.fillStyle = colors.FLAG;
-                    ctx.font = '20px Arial';
+                    ctx.font = `${Math.round(20 * lattice.labelScale)}px Arial`;
                     ctx.textAlign = 'center';
                     ctx.textBaseline = 'middle';
-                    ctx.fillText('🚩', px + CELL_SIZE / 2, py + CELL_SIZE / 2 + 2);
+                    ctx.fillText('🚩', cx, cy + 2);
                     
-                    if ((gameState === 'LOST' || isReviewing) && board && !board.mines[ty * config.width + tx]) {
+                    if (revealMines && !isMine) {
                         // 間違った旗にはバツ印
+                        const r = markSize / 2 - 8 * lattice.labelScale;
                         ctx.strokeStyle = 'red';
                         ctx.lineWidth = 2;
                         ctx.beginPath();
-                        ctx.moveTo(px + 8, py + 8); ctx.lineTo(px + CELL_SIZE - 8, py + CELL_SIZE - 8);
-                        ctx.moveTo(px + CELL_SIZE - 8, py + 8); ctx.lineTo(px + 8, py + CELL_SIZE - 8);
+                        ctx.moveTo(cx - r, cy - r); ctx.lineTo(cx + r, cy + r);
+                        ctx.moveTo(cx + r, cy - r); ctx.lineTo(cx - r, cy + r);
                         ctx.stroke();
                     }
 
                 } else if (status === 'OPENED' && neighbors > 0) {
-                    ctx.fillStyle = NUMBER_COLORS[neighbors] || colors.TEXT;
-                    ctx.font = 'bold 20px sans-serif';
+                    ctx.fillStyle = numberColor(neighbors);
+                    ctx.font = `bold ${Math.round(20 * lattice.labelScale * numberFontScale(neighbors))}px sans-serif`;
                     ctx.textAlign = 'center';
                     ctx.textBaseline = 'middle';
-                    ctx.fillText(neighbors.toString(), px + CELL_SIZE / 2, py + CELL_SIZE / 2);
+                    ctx.fillText(neighbors.toString(), cx, cy);
+                }
+
+                // ヒントや再生中の操作のマスをすべてのコピーで強調
+                const highlight = highlightColor(idx);
+                if (highlight) {
+                    tracePolygon(ctx, polygon.map(([x, y]) => [cx + (x - cx) * insetScale, cy + (y - cy) * insetScale]));
+                    ctx.strokeStyle = highlight;
+                    ctx.lineWidth = 3;
+                    ctx.stroke();
+                }
+                if (cursor && col === cursor.col && row === cursor.row) {
+                    tracePolygon(ctx, polygon);
+                    strokeCursor();
+                }
+            }
+        }
+
+        if (patchLayout) {
+            // 展開図: 面の輪郭と、展開図で離れている辺の貼り合わせ（同じ色・記号の矢印どうしが向きを合わせて貼られる）
+            const netPoint = ([x, y]: [number, number]): [number, number] => [cam.x + x * CELL_SIZE, cam.y + y * CELL_SIZE];
+            const arrowSize = Math.max(5, CELL_SIZE * 0.2);
+            const half = Math.min(Math.min(config.width, config.height) * 0.2, 1.5);
+
+            // 貼り合わせのない辺は盤面の端
+            ctx.strokeStyle = colors.MAIN_BORDER;
+            ctx.lineWidth = 3;
+            for (const edge of openPatchSides(patchLayout)) {
+                const [[x1, y1], [x2, y2]] = patchNetEdge(patchLayout, config.width, config.height, edge).map(netPoint);
+                ctx.beginPath();
+                ctx.moveTo(x1, y1);
+                ctx.lineTo(x2, y2);
+                ctx.stroke();
+            }
+
+            ctx.font = 'bold 16px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            patchNetSeams(patchLayout, config.width, config.height).forEach(({ seam, a, b, joined }, i) => {
+                if (joined) {
+                    // 展開図でも接している辺は細い破線で面の境目だけ示す
+                    const [[x1, y1], [x2, y2]] = a.map(netPoint);
+                    ctx.strokeStyle = colors.MAIN_BORDER;
+                    ctx.lineWidth = 1;
+                    ctx.setLineDash([4, 4]);
+                    ctx.beginPath();
+                    ctx.moveTo(x1, y1);
+                    ctx.lineTo(x2, y2);
+                    ctx.stroke();
+                    ctx.setLineDash([]);
+                    return;
                 }
+                const color = SEAM_COLORS[i % SEAM_COLORS.length];
+                const sides: [typeof a, number][] = [[a, seam.a.patch], [seam.reversed ? [b[1], b[0]] : b, seam.b.patch]];
+                for (const [[start, end], patch] of sides) {
+                    const [x1, y1] = netPoint(start);
+                    const [x2, y2] = netPoint(end);
+                    ctx.strokeStyle = colors.MAIN_BORDER;
+                    ctx.lineWidth = 3;
+                    ctx.beginPath();
+                    ctx.moveTo(x1, y1);
+                    ctx.lineTo(x2, y2);
+                    ctx.stroke();
+
+                    // 辺の中央の矢印（辺上の位置が増える向き）と、面の外側に置く記号
+                    const length = Math.hypot(x2 - x1, y2 - y1);
+                    const ux = (x2 - x1) / length;
+                    const uy = (y2 - y1) / length;
+                    const mx = (x1 + x2) / 2;
+                    const my = (y1 + y2) / 2;
+                    const reach = half * CELL_SIZE;
+                    ctx.strokeStyle = color;
+                    ctx.lineWidth = showFundamentalPolygon ? 5 : 2;
+                    drawArrow(ctx, mx - ux * reach, my - uy * reach, mx + ux * reach, my + uy * reach, 1, arrowSize * (showFundamentalPolygon ? 1.6 : 1));
+
+                    const [cx, cy] = netPoint(patchNetPoint(patchLayout, config.width, config.height, patch, config.width / 2, config.height / 2));
+                    const outward = Math.sign((mx - cx) * -uy + (my - cy) * ux);
+                    ctx.fillStyle = color;
+                    ctx.fillText(seam.label, mx - uy * outward * arrowSize * 2.5, my + ux * outward * arrowSize * 2.5);
+                }
+            });
+
+            // 基本領域の表示では面の名前も示す
+            if (showFundamentalPolygon) {
+                ctx.font = `bold ${Math.round(Math.min(config.width, config.height) * CELL_SIZE * 0.4)}px sans-serif`;
+                ctx.fillStyle = colors.MAIN_BORDER + '33';
+                patchLayout.patches.forEach((patch, i) => {
+                    const [cx, cy] = netPoint(patchNetPoint(patchLayout, config.width, config.height, i, config.width / 2, config.height / 2));
+                    ctx.fillText(patch.label, cx, cy);
+                });
             }
+            return;
         }
 
         // メインエリアの青い枠線（基準位置）
-        const mainW = config.width * CELL_SIZE;
-        const mainH = config.height * CELL_SIZE;
+        const mainW = boardW;
+        const mainH = boardH;
+
+        // コピーごとの向き: 反転したコピーの色付け、元の盤面の左上の角の印、辺の貼り合わせの矢印
+        const def = getTopologyDefinition(config.topologyType);
+        const arrowSize = Math.max(5, CELL_SIZE * 0.2);
+        // 盤面上の位置 (u, v)（列・行の単位）を、向きを考慮してコピー (loopX, loopY) の画面座標に写す
+        const tilePoint = (loopX: number, loopY: number, flipX: boolean, flipY: boolean, u: number, v: number) => [
+            cam.x + loopX * mainW + (flipX ? config.width - u : u) * mainW / config.width,
+            cam.y + loopY * mainH + (flipY ? config.height - v : v) * mainH / config.height,
+        ] as const;
+        // 辺の中央に置く矢印（元の盤面での向き）。ひねった組は向かい合う辺で逆向きになる
+        type GluingArrow = { from: [number, number], to: [number, number], color: string, heads: number, label: string, outward: [number, number] };
+        const midX = config.width / 2;
+        const midY = config.height / 2;
+        const halfX = Math.min(config.width * 0.2, 1.5);
+        const halfY = Math.min(config.height * 0.2, 1.5);
+        const sideArrow = (u: number, reversed: boolean, outward: number): GluingArrow => ({
+            from: [u, reversed ? midY + halfY : midY - halfY],
+            to: [u, reversed ? midY - halfY : midY + halfY],
+            color: GLUING_COLORS.HORIZONTAL, heads: 1, label: 'a', outward: [outward, 0],
+        });
+        const topArrow = (v: number, reversed: boolean, outward: number): GluingArrow => ({
+            from: [reversed ? midX + halfX : midX - halfX, v],
+            to: [reversed ? midX - halfX : midX + halfX, v],
+            color: GLUING_COLORS.VERTICAL, heads: 2, label: 'b', outward: [0, outward],
+        });
+        const gluingArrows: GluingArrow[] = [];
+        if (def.edges.left !== 'OPEN') {
+            gluingArrows.push(sideArrow(0, false, -1), sideArrow(config.width, def.edges.right === 'TWISTED', 1));
+        }
+        if (def.edges.top !== 'OPEN') {
+            gluingArrows.push(topArrow(0, false, -1), topArrow(config.height, def.edges.bottom === 'TWISTED', 1));
+        }
+
+        const firstLoopX = Math.floor(-cam.x / mainW);
+        const lastLoopX = Math.floor((canvas.width - cam.x) / mainW);
+        const firstLoopY = Math.floor(-cam.y / mainH);
+        const lastLoopY = Math.floor((canvas.height - cam.y) / mainH);
+        for (let loopY = firstLoopY; loopY <= lastLoopY; loopY++) {
+            for (let loopX = firstLoopX; loopX <= lastLoopX; loopX++) {
+                const orientation = tileOrientation(def, loopX, loopY);
+                if (!orientation) continue;
+                const { flipX, flipY } = orientation;
+                const [x0, y0] = tilePoint(loopX, loopY, false, false, 0, 0);
+
+                if (flipY) {
+                    ctx.fillStyle = GLUING_COLORS.HORIZONTAL + FLIP_TINT_ALPHA;
+                    ctx.fillRect(x0, y0, mainW, mainH);
+                }
+                if (flipX) {
+                    ctx.fillStyle = GLUING_COLORS.VERTICAL + FLIP_TINT_ALPHA;
+                    ctx.fillRect(x0, y0, mainW, mainH);
+                }
+
+                // 元の盤面の左上の角（反転したコピーでは別の角に来る）
+                const [cx, cy] = tilePoint(loopX, loopY, flipX, flipY, 0, 0);
+                const [ax] = tilePoint(loopX, loopY, flipX, flipY, 0.5, 0);
+                const [, by] = tilePoint(loopX, loopY, flipX, flipY, 0, 0.5);
+                ctx.fillStyle = colors.MAIN_BORDER;
+                ctx.beginPath();
+                ctx.moveTo(cx, cy);
+                ctx.lineTo(ax, cy);
+                ctx.lineTo(cx, by);
+                ctx.closePath();
+                ctx.fill();
+
+                for (const arrow of gluingArrows) {
+                    const [x1, y1] = tilePoint(loopX, loopY, flipX, flipY, arrow.from[0], arrow.from[1]);
+                    const [x2, y2] = tilePoint(loopX, loopY, flipX, flipY, arrow.to[0], arrow.to[1]);
+                    ctx.strokeStyle = arrow.color;
+                    ctx.lineWidth = 2;
+                    drawArrow(ctx, x1, y1, x2, y2, arrow.heads, arrowSize);
+                }
+            }
+        }
+
+        if (showFundamentalPolygon) {
+            // 元の盤面の外側を暗くする
+            ctx.fillStyle = colors.BG + 'b3';
+            ctx.fillRect(0, 0, canvas.width, cam.y);
+            ctx.fillRect(0, cam.y + mainH, canvas.width, canvas.height - cam.y - mainH);
+            ctx.fillRect(0, cam.y, cam.x, mainH);
+            ctx.fillRect(cam.x + mainW, cam.y, canvas.width - cam.x - mainW, mainH);
+
+            // 開いた端は破線、貼り合わせる辺は太い矢印と記号
+            ctx.strokeStyle = colors.CELL_BORDER;
+            ctx.lineWidth = 3;
+            ctx.setLineDash([8, 6]);
+            if (def.edges.left === 'OPEN') {
+                ctx.beginPath();
+                ctx.moveTo(cam.x, cam.y); ctx.lineTo(cam.x, cam.y + mainH);
+                ctx.moveTo(cam.x + mainW, cam.y); ctx.lineTo(cam.x + mainW, cam.y + mainH);
+                ctx.stroke();
+            }
+            if (def.edges.top === 'OPEN') {
+                ctx.beginPath();
+                ctx.moveTo(cam.x, cam.y); ctx.lineTo(cam.x + mainW, cam.y);
+                ctx.moveTo(cam.x, cam.y + mainH); ctx.lineTo(cam.x + mainW, cam.y + mainH);
+                ctx.stroke();
+            }
+            ctx.setLineDash([]);
+
+            ctx.font = 'bold 18px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            for (const arrow of gluingArrows) {
+                const [x1, y1] = tilePoint(0, 0, false, false, arrow.from[0], arrow.from[1]);
+                const [x2, y2] = tilePoint(0, 0, false, false, arrow.to[0], arrow.to[1]);
+                ctx.strokeStyle = arrow.color;
+                ctx.lineWidth = 5;
+                drawArrow(ctx, x1, y1, x2, y2, arrow.heads, arrowSize * 1.6);
+                // 記号は辺の外側に置く
+                ctx.fillStyle = arrow.color;
+                ctx.fillText(
+                    arrow.label,
+                    (x1 + x2) / 2 + arrow.outward[0] * arrowSize * 3,
+                    (y1 + y2) / 2 + arrow.outward[1] * arrowSize * 3
+                );
+            }
+        }
         
         ctx.strokeStyle = colors.MAIN_BORDER;
         ctx.lineWidth = 3;
         ctx.strokeRect(cam.x, cam.y, mainW, mainH);
 
-    }, [board, config, colors, isDarkMode, gameState, isReviewing, CELL_SIZE]);
+    }, [board, config, colors, isDarkMode, gameState, isReviewing, CELL_SIZE, hint, playbackBoard, playbackCell, surfaceMesh, zoomLevel, showFundamentalPolygon, topology, lattice, boardW, boardH, patchLayout, indexAt]);
 
     // アニメーションループ
     useEffect(() => {
@@ -248,115 +803,295 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     // --- 操作イベント ---
     
     const handleMouseDown = (e: React.MouseEvent) => {
+        // 中クリックによるブラウザの自動スクロールを抑止
+        if (e.button === 1) e.preventDefault();
+        showCursorRef.current = false;
         isDragging.current = true;
         lastMousePos.current = { x: e.clientX, y: e.clientY };
         dragStartPos.current = { x: e.clientX, y: e.clientY };
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
-        if (!isDragging.current) return;
+        // キーボードのカーソルの表示中は、隣接の色付けをカーソルのマスに合わせたままにする
+        if (!isDragging.current && showCursorRef.current) return;
+        if (!isDragging.current) {
+            hoverCellRef.current = cellAt(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
+            return;
+        }
+        hoverCellRef.current = null;
         
         const dx = e.clientX - lastMousePos.current.x;
         const dy = e.clientY - lastMousePos.current.y;
+        lastMousePos.current = { x: e.clientX, y: e.clientY };
+
+        // 3D表示ではドラッグで曲面を回転する（真上・真下より先には回さない）
+        if (surfaceMesh) {
+            const { yaw, pitch } = surfaceCameraRef.current;
+            surfaceCameraRef.current = {
+                yaw: yaw + dx * ROTATE_SPEED,
+                pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, pitch + dy * ROTATE_SPEED)),
+            };
+            return;
+        }
         
-        let newCamX = cameraRef.current.x + dx;
-        let newCamY = cameraRef.current.y + dy;
+        moveCamera(cameraRef.current.x + dx, cameraRef.current.y + dy);
+    };
 
-        // トーラス時の座標正規化（無限スクロールしても座標を中央付近に戻す）
-        if (config.topologyType === 'TORUS') {
-            const boardW = config.width * CELL_SIZE;
-            const boardH = config.height * CELL_SIZE;
-            const screenCenterW = window.innerWidth / 2;
-            const screenCenterH = window.innerHeight / 2;
+    // 座標正規化（無限スクロールしても座標を中央付近に戻す）
+    // 見た目が元に戻る周期（ひねりありなら2枚分）単位でのみずらし、キーボードのカーソルも同じコピーの位置へずらす
+    const moveCamera = (x: number, y: number) => {
+        let newCamX = x;
+        let newCamY = y;
+        let shiftCols = 0;
+        let shiftRows = 0;
+        const def = getTopologyDefinition(config.topologyType);
+        const periodX = tilingPeriod(def.edges.left);
+        const periodY = tilingPeriod(def.edges.top);
+        if (periodX !== null) {
+            const spanW = boardW * periodX;
             const currentCenterX = newCamX + boardW / 2;
+            const screenCenterW = window.innerWidth / 2;
+            if (currentCenterX > screenCenterW + spanW) { newCamX -= spanW; shiftCols = periodX; }
+            if (currentCenterX < screenCenterW - spanW) { newCamX += spanW; shiftCols = -periodX; }
+        }
+        if (periodY !== null) {
+            const spanH = boardH * periodY;
             const currentCenterY = newCamY + boardH / 2;
-
-            if (currentCenterX > screenCenterW + boardW) newCamX -= boardW;
-            if (currentCenterX < screenCenterW - boardW) newCamX += boardW;
-            if (currentCenterY > screenCenterH + boardH) newCamY -= boardH;
-            if (currentCenterY < screenCenterH - boardH) newCamY += boardH;
+            const screenCenterH = window.innerHeight / 2;
+            if (currentCenterY > screenCenterH + spanH) { newCamY -= spanH; shiftRows = periodY; }
+            if (currentCenterY < screenCenterH - spanH) { newCamY += spanH; shiftRows = -periodY; }
         }
 
         cameraRef.current = { x: newCamX, y: newCamY };
-        lastMousePos.current = { x: e.clientX, y: e.clientY };
+        const cursor = cursorRef.current;
+        if (cursor && !patchLayout && (shiftCols !== 0 || shiftRows !== 0)) {
+            cursorRef.current = { ...cursor, col: cursor.col + shiftCols * config.width, row: cursor.row + shiftRows * config.height };
+        }
+    };
+
+    // カーソルが画面の端に近づいたら、見える位置までカメラを動かす（3D表示では曲面ごと見えているので動かさない）
+    const scrollToCursor = (cursor: KeyboardCursor) => {
+        if (surfaceMesh) return;
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const cam = cameraRef.current;
+        const [ux, uy] = lattice.cellCenter(cursor.col, cursor.row);
+        const x = ux * CELL_SIZE + cam.x;
+        const y = uy * CELL_SIZE + cam.y;
+        const margin = CELL_SIZE * CURSOR_MARGIN;
+        let dx = 0;
+        let dy = 0;
+        if (x < margin) dx = margin - x;
+        else if (x > canvas.width - margin) dx = canvas.width - margin - x;
+        if (y < HEADER_HEIGHT + margin) dy = HEADER_HEIGHT + margin - y;
+        else if (y > canvas.height - margin) dy = canvas.height - margin - y;
+        if (dx !== 0 || dy !== 0) moveCamera(cam.x + dx, cam.y + dy);
+    };
+
+    // 今の盤面（再生中ならリプレイの盤面）でのマスの読み上げ
+    const describeAt = (index: number) => {
+        const shown = playbackBoard ?? board;
+        const revealMines = playbackBoard ? playbackBoard.hasExploded() : (gameState === 'LOST' || isReviewing);
+        return describeCursorCell(topology, shown, index, revealMines);
+    };
+
+    // カーソルを表示する（まだなければ盤面の中央に置く）
+    const showCursor = (): KeyboardCursor => {
+        const cursor = cursorRef.current ?? cursorAt(topology, centerCell(config));
+        cursorRef.current = cursor;
+        showCursorRef.current = true;
+        hoverCellRef.current = cursor.index;
+        return cursor;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+        const direction = ARROW_KEYS[e.key];
+        const action = ACTION_KEYS[e.key];
+        if (!direction && !action) return;
+        e.preventDefault();
+
+        const wasShown = showCursorRef.current && cursorRef.current !== null;
+        const cursor = showCursor();
+        // 最初のキーではカーソルを出して、今いるマスを伝えるだけにする
+        if (!wasShown) {
+            scrollToCursor(cursor);
+            setAnnouncement(describeAt(cursor.index));
+            return;
+        }
+
+        if (direction) {
+            const step = moveCursor(topology, cursor, direction);
+            if (!step) {
+                setAnnouncement(`${describeAt(cursor.index)} — edge of the board`);
+                return;
+            }
+            cursorRef.current = step.cursor;
+            hoverCellRef.current = step.cursor.index;
+            scrollToCursor(step.cursor);
+            setAnnouncement(describeCursorStep(step, describeAt(step.cursor.index)));
+            return;
+        }
+        if (action) actOnCell(cursor.index, action);
+    };
+
+    // Tab キーで移ってきたときはすぐにカーソルを出す（クリックで移ってきたときは出さない）
+    const handleFocus = (e: React.FocusEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.matches(':focus-visible')) return;
+        const cursor = showCursor();
+        scrollToCursor(cursor);
+        setAnnouncement(describeAt(cursor.index));
+    };
+
+    const hideCursor = () => {
+        showCursorRef.current = false;
+        hoverCellRef.current = null;
     };
 
     const handleMouseUp = (e: React.MouseEvent) => {
         isDragging.current = false;
         const dist = Math.hypot(e.clientX - dragStartPos.current.x, e.clientY - dragStartPos.current.y);
         
-        if (dist < 5) {
-            handleCellClick(e.nativeEvent.offsetX, e.nativeEvent.offsetY, e.button === 2);
+        if (suppressNextUp.current) {
+            suppressNextUp.current = false;
+            return;
+        }
+        if (dist >= 5) return;
+
+        // 左右同時押し（片方を離した時点でもう片方が押されている）か中クリックならコード
+        const otherHeld = (e.button === 0 && (e.buttons & 2) !== 0) || (e.button === 2 && (e.buttons & 1) !== 0);
+        let action: CellAction;
+        if (otherHeld) {
+            action = 'CHORD';
+            suppressNextUp.current = true;
+        } else if (e.button === 1) {
+            action = 'CHORD';
+        } else {
+            action = e.button === 2 ? 'FLAG' : 'OPEN';
         }
+        handleCellClick(e.nativeEvent.offsetX, e.nativeEvent.offsetY, action);
     };
 
-    const handleCellClick = async (canvasX: number, canvasY: number, isRightClick: boolean) => {
-        if (gameState === 'LOST' || gameState === 'WON' || gameState === 'GENERATING' || isReviewing) return;
+    // 最初のクリック位置を安全地帯として盤面を生成する（ワーカー上で実行し、中断可能）
+    const startGame = async (index: number, seed: number) => {
+        generationAbort.current?.abort();
+        const controller = new AbortController();
+        generationAbort.current = controller;
 
-        const cam = cameraRef.current;
-        const col = Math.floor((canvasX - cam.x) / CELL_SIZE);
-        const row = Math.floor((canvasY - cam.y) / CELL_SIZE);
+        setGameState('GENERATING');
+        onGameStateChange('GENERATING');
 
-        const { tx, ty, isValid } = mapCoordinates(col, row, config);
+        const outcome = await settleGeneration(config, index, onGenerationProgress, { seed, signal: controller.signal });
+        if (outcome.status === 'aborted') {
+            // Cancel ボタンによる中断なら最初のクリック待ちへ戻る（リセットや再生成で置き換えられた場合は何もしない）
+            if (generationAbort.current === controller) {
+                generationAbort.current = null;
+                setGameState('INIT');
+                onGameStateChange('INIT');
+            }
+            return;
+        }
+        generationAbort.current = null;
+
+        const newBoard = outcome.status === 'done' ? outcome.board : null;
+        if (newBoard) {
+            setBoard(newBoard);
+            setGameState('PLAYING');
+            onGameStateChange('PLAYING');
+            onMineCountChange(config.mines - newBoard.countFlags());
+            onBoardGenerated(seed, index);
+            onHistoryChange(false, false);
+            seedRef.current = seed;
+            playStartRef.current = newBoard.history.log[0]?.timestamp ?? Date.now();
+            onPlayStart(playStartRef.current);
+            saveProgress(newBoard);
+        } else {
+            // 解ける配置が見つからなかった場合も、ワーカーが失敗した場合も最初のクリック待ちへ戻る
+            alert(outcome.status === 'failed' ? `Generation failed: ${outcome.message}` : "Generation failed. Please try again.");
+            setGameState('INIT');
+            onGameStateChange('INIT');
+        }
+    };
+
+    // 画面上の位置にあるマスの番号（盤面の外なら null）
+    const cellAt = (canvasX: number, canvasY: number): number | null => {
+        if (surfaceMesh) return pickSurfaceCell(surfaceCellsRef.current, canvasX, canvasY);
 
-        if (!isValid) return;
+        const cam = cameraRef.current;
+        const [col, row] = cellAtPoint(lattice, (canvasX - cam.x) / CELL_SIZE, (canvasY - cam.y) / CELL_SIZE);
+        return indexAt(col, row);
+    };
+
+    const handleCellClick = (canvasX: number, canvasY: number, action: CellAction) => {
+        const index = cellAt(canvasX, canvasY);
+        if (index !== null) actOnCell(index, action);
+    };
 
-        const index = ty * config.width + tx;
+    const actOnCell = async (index: number, action: CellAction) => {
+        if (gameState === 'LOST' || gameState === 'WON' || gameState === 'GENERATING' || isReviewing || playback) return;
 
         if (gameState === 'INIT') {
-            if (isRightClick) return;
-            setGameState('GENERATING');
-            onGameStateChange('GENERATING');
-
-            const newBoard = await generateBoardAsync(config, index, () => {});
-            
-            if (newBoard) {
-                setBoard(newBoard);
-                setGameState('PLAYING');
-                onGameStateChange('PLAYING');
-                onMineCountChange(config.mines - newBoard.countFlags());
-            } else {
-                alert("Generation failed. Please try again.");
-                setGameState('INIT');
-                onGameStateChange('INIT');
-            }
+            if (action !== 'OPEN') return;
+            await startGame(index, randomSeed());
             return;
         }
 
         if (board) {
             const newBoard = board.clone();
-            
-            if (isRightClick) {
-                newBoard.toggleFlag(index);
-                onMineCountChange(config.mines - newBoard.countFlags());
-            } else {
-                const exploded = newBoard.open(index);
-                if (exploded) {
-                    setGameState('LOST');
-                    onGameStateChange('LOST');
-                } else {
-                    if (newBoard.checkWin()) {
-                        setGameState('WON');
-                        onGameStateChange('WON');
-                        onMineCountChange(0);
-                    }
-                }
-            }
-            setBoard(newBoard);
+            // 開いた数字マスを左クリックした場合もコードとして扱う
+            const move = (action === 'OPEN' && newBoard.status[index] === 'OPENED') ? 'CHORD' : action;
+            newBoard.perform(move, index);
+            commitBoard(newBoard);
+        }
+    };
+
+    const saveProgress = (current: Board) => {
+        storeSavedGame(createSave(current, config, seedRef.current, Date.now() - playStartRef.current, cameraRef.current));
+    };
+
+    // 操作後の盤面を反映し、勝敗を判定する
+    const commitBoard = (newBoard: Board) => {
+        let next: 'PLAYING' | 'WON' | 'LOST' = 'PLAYING';
+        if (newBoard.hasExploded()) next = 'LOST';
+        else if (newBoard.checkWin()) next = 'WON';
+
+        setBoard(newBoard);
+        if (next !== gameState) {
+            setGameState(next);
+            onGameStateChange(next);
+            if (next !== 'PLAYING') onGameEnd(newBoard);
+        }
+        onMineCountChange(next === 'WON' ? 0 : config.mines - newBoard.countFlags());
+        onHistoryChange(newBoard.history.canUndo(practiceMode), newBoard.history.canRedo());
+        // 終わったゲームは再開できないので保存を消す
+        if (next === 'PLAYING') saveProgress(newBoard);
+        else clearSavedGame();
+        if (hint) {
+            setHint(null);
+            onHintCleared();
         }
     };
 
     return (
-        <canvas
-            ref={canvasRef}
-            width={window.innerWidth}
-            height={window.innerHeight}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={() => { isDragging.current = false; }}
-            onContextMenu={(e) => e.preventDefault()}
-            style={{ display: 'block', cursor: isDragging.current ? 'grabbing' : 'pointer' }}
-        />
+        <>
+            <canvas
+                ref={canvasRef}
+                width={window.innerWidth}
+                height={window.innerHeight}
+                tabIndex={0}
+                role="application"
+                aria-label={KEYBOARD_HELP}
+                onKeyDown={handleKeyDown}
+                onFocus={handleFocus}
+                onBlur={hideCursor}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={() => { isDragging.current = false; if (!showCursorRef.current) hoverCellRef.current = null; }}
+                onContextMenu={(e) => e.preventDefault()}
+                style={{ display: 'block', outline: 'none', cursor: isDragging.current ? 'grabbing' : 'pointer' }}
+            />
+            <div role="status" aria-live="polite" style={visuallyHidden}>{announcement}</div>
+        </>
     );
 };
\ No newline at end of file
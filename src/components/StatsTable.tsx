@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { DIFFICULTY_PRESETS, type LatticeType } from '../logic/GameCore.ts';
+import { listLattices } from '../logic/Lattice.ts';
+import { listTopologies } from '../logic/TopologyRegistry.ts';
+import {
+    averageTime, bestTime, formatTime, getEntry, winRate,
+    type Statistics
+} from '../logic/Statistics.ts';
+
+interface StatsTableProps {
+    stats: Statistics;
+    isDarkMode: boolean;
+    // ランキングを表示する組み合わせ
+    selected: StatsSelection | null;
+    onSelect: (selection: StatsSelection) => void;
+}
+
+export interface StatsSelection {
+    topologyType: string;
+    presetIndex: number;
+    lattice: LatticeType;
+}
+
+const formatOptional = (ms: number | null) => ms === null ? '—' : formatTime(ms);
+
+// トポロジー × 難易度の成績一覧（格子ごとに切り替え）と、選択中の組み合わせのランキング
+export const StatsTable: React.FC<StatsTableProps> = ({ stats, isDarkMode, selected, onSelect }) => {
+    const [lattice, setLattice] = useState<LatticeType>(selected?.lattice ?? 'SQUARE');
+    const border = `1px solid ${isDarkMode ? '#3a3b3c' : '#e4e6eb'}`;
+    const cell = { padding: '6px 8px', borderBottom: border, textAlign: 'right' as const, whiteSpace: 'nowrap' as const };
+    const head = { ...cell, fontSize: '0.8rem', opacity: 0.7, textTransform: 'uppercase' as const };
+
+    const selectedEntry = selected ? getEntry(stats, selected.topologyType, selected.presetIndex, selected.lattice) : null;
+
+    return (
+        <div>
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                {listLattices().map(({ type, label }) => (
+                    <button
+                        key={type}
+                        title={label}
+                        onClick={() => setLattice(type)}
+                        style={{
+                            flex: 1,
+                            padding: '6px',
+                            borderRadius: '6px',
+                            border: border,
+                            cursor: 'pointer',
+                            color: 'inherit',
+                            fontWeight: lattice === type ? 700 : 400,
+                            background: lattice === type ? (isDarkMode ? 'rgba(77,171,245,0.2)' : 'rgba(24,119,242,0.1)') : 'transparent'
+                        }}
+                    >
+                        {type}
+                    </button>
+                ))}
+            </div>
+            <div style={{ maxHeight: '50vh', overflowY: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+                    <thead>
+                        <tr>
+                            <th style={{ ...head, textAlign: 'left' }}>Topology</th>
+                            <th style={{ ...head, textAlign: 'left' }}>Difficulty</th>
+                            <th style={head}>Played</th>
+                            <th style={head}>Win %</th>
+                            <th style={head}>Best</th>
+                            <th style={head}>Avg</th>
+                            <th style={head}>Streak</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {listTopologies().map(({ type }) => DIFFICULTY_PRESETS.map((preset, presetIndex) => {
+                            const entry = getEntry(stats, type, presetIndex, lattice);
+                            const rate = winRate(entry);
+                            const isSelected = selected?.topologyType === type && selected.presetIndex === presetIndex
+                                && selected.lattice === lattice;
+                            return (
+                                <tr
+                                    key={`${type}|${presetIndex}`}
+                                    onClick={() => onSelect({ topologyType: type, presetIndex, lattice })}
+                                    style={{
+                                        cursor: 'pointer',
+                                        background: isSelected ? (isDarkMode ? 'rgba(77,171,245,0.2)' : 'rgba(24,119,242,0.1)') : 'transparent',
+                                        opacity: entry.played > 0 ? 1 : 0.5
+                                    }}
+                                >
+                                    <td style={{ ...cell, textAlign: 'left' }}>{type}</td>
+                                    <td style={{ ...cell, textAlign: 'left' }}>{preset.label}</td>
+                                    <td style={cell}>{entry.played}</td>
+                                    <td style={cell}>{rate === null ? '—' : `${Math.round(rate * 100)}%`}</td>
+                                    <td style={cell}>{formatOptional(bestTime(entry))}</td>
+                                    <td style={cell}>{formatOptional(averageTime(entry))}</td>
+                                    <td style={cell}>{entry.currentStreak} <span style={{ opacity: 0.6 }}>({entry.bestStreak})</span></td>
+                                </tr>
+                            );
+                        }))}
+                    </tbody>
+                </table>
+            </div>
+
+            {selected && selectedEntry && (
+                <div style={{ marginTop: '16px' }}>
+                    <h3 style={{ fontSize: '0.9rem', textTransform: 'uppercase', opacity: 0.7, margin: '0 0 8px' }}>
+                        Best Times — {selected.topologyType}{selected.lattice !== 'SQUARE' && ` (${selected.lattice})`} / {DIFFICULTY_PRESETS[selected.presetIndex].label}
+                    </h3>
+                    {selectedEntry.leaderboard.length === 0 ? (
+                        <div style={{ opacity: 0.6, fontSize: '0.9rem' }}>No wins yet.</div>
+                    ) : (
+                        <ol style={{ margin: 0, paddingLeft: '24px', fontSize: '0.9rem' }}>
+                            {selectedEntry.leaderboard.map((l, i) => (
+                                <li key={i}>
+                                    <strong>{formatTime(l.timeMs)}</strong>
+                                    <span style={{ opacity: 0.6, marginLeft: '8px' }}>{new Date(l.date).toLocaleDateString()}</span>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,71 @@
+/**
+ * src/logic/Benchmark.ts
+ * 盤面生成の計測: 同じシード列で設定ごとに盤面を生成し、成功率とかかった時間を比べる
+ * MAX_RETRY や地雷密度の上限を調整するための材料にする
+ */
+
+import { MAX_RETRY, centerCell, generateBoardAsync, type GameConfig } from './GameCore.ts';
+
+export interface BenchmarkResult {
+    config: GameConfig;
+    boards: number;
+    // 論理的に解ける盤面が見つかった数
+    solved: number;
+    // すべてのシードの試行回数の合計（見つからなかったシードは上限まで数える）
+    attempts: number;
+    // 見つかった盤面のうち、最も多く試行したもの
+    maxAttempts: number;
+    totalMs: number;
+}
+
+export interface BenchmarkOptions {
+    seeds: number[];
+    // 1盤面あたりの試行回数の上限（省略時は MAX_RETRY）
+    maxAttempts?: number;
+    // 設定を1つ計測し終えるたびに呼ばれる
+    onResult?: (result: BenchmarkResult) => void;
+}
+
+export async function benchmarkGeneration(configs: GameConfig[], options: BenchmarkOptions): Promise<BenchmarkResult[]> {
+    const limit = options.maxAttempts ?? MAX_RETRY;
+    const results: BenchmarkResult[] = [];
+    for (const config of configs) {
+        const startIndex = centerCell(config);
+        const result: BenchmarkResult = { config, boards: options.seeds.length, solved: 0, attempts: 0, maxAttempts: 0, totalMs: 0 };
+
+        for (const seed of options.seeds) {
+            let attempts = 0;
+            const started = performance.now();
+            const board = await generateBoardAsync(
+                config, startIndex, progress => { attempts = progress.attempts; }, { seed, maxAttempts: limit }
+            );
+            result.totalMs += performance.now() - started;
+            if (board) {
+                result.solved++;
+                result.attempts += attempts;
+                result.maxAttempts = Math.max(result.maxAttempts, attempts);
+            } else {
+                result.attempts += limit;
+            }
+        }
+        results.push(result);
+        options.onResult?.(result);
+    }
+    return results;
+}
+
+// 結果を表にする（成功率、1盤面あたりの時間、1試行あたりの時間）
+export function formatBenchmark(results: BenchmarkResult[]): string {
+    const header = ['Topology', 'Board', 'Solved', 'Attempts', 'Max', 'ms/board', 'ms/attempt'];
+    const rows = results.map(({ config, boards, solved, attempts, maxAttempts, totalMs }) => [
+        config.topologyType,
+        `${config.width}×${config.height}/${config.mines}`,
+        `${solved}/${boards} (${Math.round(solved / boards * 100)}%)`,
+        String(attempts),
+        String(maxAttempts),
+        (totalMs / boards).toFixed(1),
+        (totalMs / Math.max(1, attempts)).toFixed(2),
+    ]);
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+    return [header, ...rows].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
@@ -0,0 +1,218 @@
+/**
+ * src/logic/Board.test.ts
+ * 盤面の操作: 開いたときの連鎖（0 のマスからの塗りつぶし）と勝利判定、盤面ファイルの書き出しと読み込み
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+    Board, createTopology, parseBoard, serializeBoardJson, serializeBoardText, topologyErrors, type GameConfig
+} from './GameCore.ts';
+import { listTopologies } from './TopologyRegistry.ts';
+
+const topologyTypes = listTopologies().map(t => t.type);
+
+const arbitraryConfig = fc.record({
+    topologyType: fc.constantFrom(...topologyTypes),
+    lattice: fc.constantFrom('SQUARE', 'HEX', 'TRIANGLE'),
+    width: fc.integer({ min: 2, max: 8 }),
+    height: fc.integer({ min: 2, max: 8 }),
+}).filter(config => topologyErrors(config).length === 0);
+
+// 地雷の配置を (割合, 乱数の列) で選ぶ
+const arbitraryBoard = fc.tuple(arbitraryConfig, fc.double({ min: 0, max: 0.4, noNaN: true }), fc.infiniteStream(fc.double({ min: 0, max: 1, noNaN: true })))
+    .map(([config, density, stream]) => {
+        const board = new Board(createTopology({ ...config, mines: 1 }));
+        const mines = Array.from({ length: board.topology.size }, () => stream.next().value < density);
+        board.setMines(mines);
+        return board;
+    });
+
+// 連鎖で開くはずのマス: 0 のマスからだけ隣へ広がる幅優先探索
+function expectedOpening(board: Board, start: number): Set<number> {
+    const opened = new Set([start]);
+    if (board.mines[start]) return opened;
+    const queue = [start];
+    while (queue.length > 0) {
+        const cell = queue.shift()!;
+        if (board.neighborMineCounts[cell] !== 0) continue;
+        for (const n of board.topology.getNeighbors(cell)) {
+            if (!opened.has(n)) {
+                opened.add(n);
+                queue.push(n);
+            }
+        }
+    }
+    return opened;
+}
+
+function openedCells(board: Board): Set<number> {
+    return new Set(board.status.flatMap((s, i) => s === 'OPENED' ? [i] : []));
+}
+
+function boardFromMines(config: GameConfig, mines: number[]): Board {
+    const board = new Board(createTopology(config));
+    board.setMines(board.mines.map((_, i) => mines.includes(i)));
+    return board;
+}
+
+describe('Board', () => {
+    it('counts the mines among the neighbours of every safe cell', () => {
+        fc.assert(fc.property(arbitraryBoard, board => {
+            for (let i = 0; i < board.topology.size; i++) {
+                const expected = board.mines[i] ? -1 : board.topology.getNeighbors(i).filter(n => board.mines[n]).length;
+                expect(board.neighborMineCounts[i]).toBe(expected);
+            }
+        }), { numRuns: 200 });
+    });
+
+    it('floods exactly the zero region and its border when a cell is opened', () => {
+        fc.assert(fc.property(arbitraryBoard, fc.nat(), (board, pick) => {
+            const start = pick % board.topology.size;
+            const reported: number[] = [];
+            const exploded = board.open(start, i => reported.push(i));
+
+            expect(exploded).toBe(board.mines[start]);
+            expect(board.hasExploded()).toBe(board.mines[start]);
+            expect(openedCells(board)).toEqual(expectedOpening(board, start));
+            expect(new Set(reported)).toEqual(openedCells(board));
+            expect(reported.length).toBe(new Set(reported).size);
+        }), { numRuns: 300 });
+    });
+
+    it('never opens a mine through the flood fill', () => {
+        fc.assert(fc.property(arbitraryBoard, fc.nat(), (board, pick) => {
+            const start = pick % board.topology.size;
+            fc.pre(!board.mines[start]);
+            board.open(start);
+            expect(board.hasExploded()).toBe(false);
+        }), { numRuns: 200 });
+    });
+
+    it('floods across glued edges', () => {
+        // トーラスの左上を開くと、右端と下端も同じ 0 の領域として開く
+        const config: GameConfig = { width: 6, height: 6, mines: 1, topologyType: 'TORUS' };
+        const board = boardFromMines(config, [createTopology(config).toIndex(3, 3)]);
+        board.open(0);
+        const opened = openedCells(board);
+        expect(opened.size).toBe(35);
+        expect(opened.has(board.topology.toIndex(5, 5))).toBe(true);
+
+        const plane = boardFromMines({ ...config, topologyType: 'SQUARE' }, [createTopology(config).toIndex(1, 1)]);
+        plane.open(0);
+        expect(openedCells(plane)).toEqual(new Set([0]));
+    });
+
+    it('is won exactly when every safe cell is open, regardless of flags', () => {
+        fc.assert(fc.property(arbitraryBoard, board => {
+            const safe = board.mines.flatMap((mine, i) => mine ? [] : [i]);
+            const mines = board.mines.flatMap((mine, i) => mine ? [i] : []);
+            fc.pre(safe.length > 0);
+
+            expect(board.checkWin()).toBe(false);
+            for (const i of mines) board.toggleFlag(i);
+            expect(board.checkWin()).toBe(false);
+
+            for (const i of safe.slice(1)) board.open(i);
+            expect(board.checkWin()).toBe(board.status[safe[0]] === 'OPENED');
+            board.open(safe[0]);
+            expect(board.checkWin()).toBe(true);
+            expect(board.hasExploded()).toBe(false);
+
+            for (const i of mines) board.toggleFlag(i);
+            expect(board.checkWin()).toBe(true);
+        }), { numRuns: 200 });
+    });
+
+    it('chords only when the flags match the number', () => {
+        const config: GameConfig = { width: 5, height: 5, mines: 2, topologyType: 'SQUARE' };
+        const topology = createTopology(config);
+        const board = boardFromMines(config, [topology.toIndex(0, 0), topology.toIndex(2, 0)]);
+        const center = topology.toIndex(1, 1);
+        board.open(center);
+        expect(board.neighborMineCounts[center]).toBe(2);
+
+        board.toggleFlag(topology.toIndex(0, 0));
+        expect(board.chord(center)).toBe(false);
+        expect(openedCells(board)).toEqual(new Set([center]));
+
+        board.toggleFlag(topology.toIndex(2, 0));
+        expect(board.chord(center)).toBe(false);
+        expect(board.checkWin()).toBe(true);
+    });
+
+    it('explodes when a chord runs into a wrong flag', () => {
+        const config: GameConfig = { width: 5, height: 5, mines: 1, topologyType: 'SQUARE' };
+        const topology = createTopology(config);
+        const board = boardFromMines(config, [topology.toIndex(0, 0)]);
+        const center = topology.toIndex(1, 1);
+        board.open(center);
+        board.toggleFlag(topology.toIndex(2, 2));
+        expect(board.chord(center)).toBe(true);
+        expect(board.hasExploded()).toBe(true);
+    });
+});
+
+describe('Board files', () => {
+    // 旗を何か所かに立て、0 のマスから連鎖させて開いた局面
+    const arbitraryPosition = fc.tuple(arbitraryConfig, fc.integer({ min: 1, max: 1000 }), fc.array(fc.nat(), { maxLength: 6 }), fc.array(fc.nat(), { maxLength: 4 }))
+        .map(([config, seed, clicks, flags]) => {
+            const board = new Board(createTopology({ ...config, mines: 1 }));
+            const size = board.topology.size;
+            board.setMines(board.mines.map((_, i) => (i * 7919 + seed) % 11 === 0));
+            for (const f of flags) board.toggleFlag(f % size);
+            for (const c of clicks) board.open(c % size);
+            return { config: { ...config, mines: board.mines.filter(Boolean).length }, board };
+        });
+
+    it.each([
+        ['JSON', serializeBoardJson],
+        ['text', serializeBoardText],
+    ])('round-trips mines and cell states through the %s form', (_, serialize) => {
+        fc.assert(fc.property(arbitraryPosition, ({ config, board }) => {
+            const loaded = parseBoard(serialize(board, config));
+            if ('error' in loaded) throw new Error(loaded.error);
+            // 正方形の格子は書き出しで省略される
+            expect({ lattice: 'SQUARE', ...loaded.config }).toEqual(config);
+            expect(loaded.board.mines).toEqual(board.mines);
+            expect(loaded.board.status).toEqual(board.status);
+        }), { numRuns: 200 });
+    });
+
+    it('reads a hand-written grid with comments and spacing', () => {
+        const loaded = parseBoard([
+            '# the left column sees the mine on the right edge across the seam',
+            'topological-minesweeper board v1',
+            'topology: TORUS',
+            'size: 5x4',
+            '',
+            '2 . . . .',
+            '1 . . . *',
+            '2 . . . .',
+            '1 F . . .',
+        ].join('\n'));
+        if ('error' in loaded) throw new Error(loaded.error);
+        const { board, config } = loaded;
+        expect(config).toEqual({ width: 5, height: 4, mines: 2, topologyType: 'TORUS' });
+        expect(board.status.filter(s => s === 'OPENED').length).toBe(4);
+        expect(board.status[board.topology.toIndex(1, 3)]).toBe('FLAGGED');
+        expect(board.history.log.map(a => a.type)).toEqual(['FLAG', 'OPEN', 'OPEN', 'OPEN', 'OPEN']);
+    });
+
+    it.each([
+        ['a wrong number', ['0 . .', '. * .', '. . .'], /Line 4: cell \(1, 1\) shows 0, but it touches 1 mine/],
+        ['an open 0 next to a hidden cell', ['0 . .', '. . .', '. . *'], /must be open: it touches an open 0/],
+        ['a short row', ['. .', '. * .', '. . .'], /Line 4: expected 3 cells, found 2/],
+        ['an unknown cell', ['. ? .', '. * .', '. . .'], /unknown cell "\?"/],
+    ])('rejects %s', (_, rows, message) => {
+        const loaded = parseBoard(['topological-minesweeper board v1', 'size: 3x3', '', ...rows].join('\n'));
+        expect('error' in loaded && loaded.error).toMatch(message);
+    });
+
+    it('rejects JSON whose mine count does not match the layout', () => {
+        const loaded = parseBoard(JSON.stringify({
+            version: 1, config: { width: 3, height: 3, mines: 2, topologyType: 'SQUARE' }, mines: [0], opened: [], flagged: [],
+        }));
+        expect('error' in loaded && loaded.error).toMatch(/config.mines is 2/);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * src/logic/BoardGenerator.test.ts
+ * 生成の呼び出し口: ワーカーが失敗しても例外を投げずに failed を返し、中断は aborted として区別する
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { settleGeneration } from './BoardGenerator.ts';
+import type { GeneratorResponse } from './GeneratorWorker.ts';
+import type { GameConfig } from './GameCore.ts';
+
+const config: GameConfig = { width: 5, height: 5, mines: 3, topologyType: 'TORUS' };
+
+// 決まった応答を返すワーカーの代わり（null なら何も返さない）
+class FakeWorker {
+    static instances: FakeWorker[] = [];
+    static response: GeneratorResponse | null = null;
+    onmessage: ((e: MessageEvent<GeneratorResponse>) => void) | null = null;
+    onerror: ((e: ErrorEvent) => void) | null = null;
+    terminated = false;
+
+    constructor() {
+        FakeWorker.instances.push(this);
+    }
+
+    postMessage() {
+        const response = FakeWorker.response;
+        if (response) setTimeout(() => this.onmessage?.({ data: response } as MessageEvent<GeneratorResponse>));
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+}
+
+describe('settleGeneration', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        FakeWorker.instances = [];
+    });
+
+    it('reports a failing worker instead of throwing', async () => {
+        vi.stubGlobal('Worker', FakeWorker);
+        FakeWorker.response = { type: 'error', message: 'out of memory' };
+        const controller = new AbortController();
+
+        const outcome = await settleGeneration(config, 0, () => {}, { seed: 1, signal: controller.signal });
+        expect(outcome).toEqual({ status: 'failed', message: 'out of memory' });
+        expect(FakeWorker.instances[0].terminated).toBe(true);
+        // 失敗した後の Cancel は何もしない
+        expect(() => controller.abort()).not.toThrow();
+    });
+
+    it('tells a cancelled generation apart from a failure', async () => {
+        vi.stubGlobal('Worker', FakeWorker);
+        FakeWorker.response = null;
+        const controller = new AbortController();
+
+        const pending = settleGeneration(config, 0, () => {}, { seed: 1, signal: controller.signal });
+        controller.abort();
+        expect(await pending).toEqual({ status: 'aborted' });
+        expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+
+    it('generates on the main thread when workers are unavailable', async () => {
+        const outcome = await settleGeneration(config, 0, () => {}, { seed: 1 });
+        expect(outcome.status).toBe('done');
+        if (outcome.status === 'done') expect(outcome.board?.history.log[0]).toMatchObject({ type: 'OPEN', index: 0 });
+    });
+});
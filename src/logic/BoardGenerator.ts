@@ -0,0 +1,104 @@
+/**
+ * src/logic/BoardGenerator.ts
+ * 盤面生成の呼び出し口: Web Worker 上で生成し、AbortSignal で中断できる
+ * Worker が使えない環境ではメインスレッドの generateBoardAsync にフォールバックする
+ */
+
+import {
+    Board, createTopology, generateBoardAsync,
+    type GameConfig, type GenerateOptions, type GenerationProgress
+} from './GameCore.ts';
+import { getTopologyDefinition } from './TopologyRegistry.ts';
+import type { GeneratorRequest, GeneratorResponse } from './GeneratorWorker.ts';
+
+export async function generateBoardInWorker(
+    config: GameConfig,
+    startIndex: number,
+    onProgress: (progress: GenerationProgress) => void,
+    options: GenerateOptions
+): Promise<Board | null> {
+    if (typeof Worker === 'undefined') {
+        return generateBoardAsync(config, startIndex, onProgress, options);
+    }
+
+    const { seed, solverMode = 'STANDARD', signal } = options;
+    signal?.throwIfAborted();
+
+    const worker = new Worker(new URL('./GeneratorWorker.ts', import.meta.url), { type: 'module' });
+
+    const mines = await new Promise<boolean[] | null>((resolve, reject) => {
+        // 中断時はワーカーごと止める
+        const onAbort = () => {
+            worker.terminate();
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const finish = () => {
+            signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+        };
+
+        worker.onmessage = (e: MessageEvent<GeneratorResponse>) => {
+            const response = e.data;
+            switch (response.type) {
+                case 'progress':
+                    onProgress(response.progress);
+                    break;
+                case 'done':
+                    finish();
+                    resolve(response.mines);
+                    break;
+                case 'error':
+                    finish();
+                    reject(new Error(response.message));
+                    break;
+            }
+        };
+        worker.onerror = (e) => {
+            finish();
+            reject(new Error(e.message));
+        };
+
+        const request: GeneratorRequest = {
+            config,
+            definition: getTopologyDefinition(config.topologyType),
+            startIndex,
+            seed,
+            solverMode,
+        };
+        worker.postMessage(request);
+    });
+
+    if (!mines) return null;
+
+    // ワーカーと同じ手順で盤面を復元する
+    const board = new Board(createTopology(config));
+    board.setMines(mines);
+    board.perform('OPEN', startIndex);
+    return board;
+}
+
+// ゲーム画面に返す生成の結果: 盤面（解ける配置が見つからなければ null）、中断、またはワーカーの失敗
+export type GenerationOutcome =
+    | { status: 'done', board: Board | null }
+    | { status: 'aborted' }
+    | { status: 'failed', message: string };
+
+/**
+ * generateBoardInWorker を呼び、例外を投げずに結果を返す。
+ * 中断による reject は aborted、それ以外（ワーカーのエラーなど）は failed にする。
+ */
+export async function settleGeneration(
+    config: GameConfig,
+    startIndex: number,
+    onProgress: (progress: GenerationProgress) => void,
+    options: GenerateOptions
+): Promise<GenerationOutcome> {
+    try {
+        return { status: 'done', board: await generateBoardInWorker(config, startIndex, onProgress, options) };
+    } catch (err) {
+        if (options.signal?.aborted) return { status: 'aborted' };
+        return { status: 'failed', message: err instanceof Error ? err.message : String(err) };
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * src/logic/Cursor.test.ts
+ * キーボードのカーソル: 貼り合わせた辺を越えて回り込み、どの一歩も上下左右の隣接マスへ進み、逆向きのキーで元に戻る
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createTopology, topologyErrors, type GameConfig } from './GameCore.ts';
+import { cursorAt, moveCursor, type CursorDirection } from './Cursor.ts';
+import { listTopologies } from './TopologyRegistry.ts';
+
+const DIRECTIONS: CursorDirection[] = ['LEFT', 'RIGHT', 'UP', 'DOWN'];
+const OPPOSITE: Record<CursorDirection, CursorDirection> = { LEFT: 'RIGHT', RIGHT: 'LEFT', UP: 'DOWN', DOWN: 'UP' };
+
+// 正方形の格子の、上下左右だけを隣接とする盤面
+function squareTopology(topologyType: string, width: number, height: number) {
+    const config: GameConfig = { topologyType, neighborhood: 'VON_NEUMANN', width, height, mines: 1 };
+    return topologyErrors(config).length === 0 ? createTopology(config) : null;
+}
+
+describe('Keyboard cursor', () => {
+    it('steps to an edge neighbour and comes back with the opposite key on every surface', () => {
+        fc.assert(fc.property(
+            fc.constantFrom(...listTopologies().map(t => t.type)),
+            fc.integer({ min: 2, max: 6 }),
+            fc.nat(),
+            fc.array(fc.constantFrom(...DIRECTIONS), { minLength: 1, maxLength: 40 }),
+            (topologyType, size, pick, keys) => {
+                const topology = squareTopology(topologyType, size, size);
+                if (!topology) return;
+                let cursor = cursorAt(topology, pick % topology.size);
+                for (const key of keys) {
+                    const step = moveCursor(topology, cursor, key);
+                    if (!step) continue;
+                    expect(topology.getNeighbors(cursor.index)).toContain(step.cursor.index);
+                    const back = moveCursor(topology, step.cursor, OPPOSITE[key]);
+                    expect(back?.cursor.index).toBe(cursor.index);
+                    expect(back?.cursor.frame).toEqual(cursor.frame);
+                    cursor = step.cursor;
+                }
+            }
+        ), { numRuns: 300 });
+    });
+
+    it('wraps around the torus and stops at the edge of the plane', () => {
+        const torus = squareTopology('TORUS', 5, 4)!;
+        let cursor = cursorAt(torus, torus.toIndex(2, 1));
+        const seams: (string | null)[] = [];
+        for (let i = 0; i < 5; i++) {
+            const step = moveCursor(torus, cursor, 'RIGHT')!;
+            seams.push(step.seam);
+            cursor = step.cursor;
+        }
+        expect(cursor.index).toBe(torus.toIndex(2, 1));
+        expect(seams.filter(Boolean)).toEqual(['a']);
+
+        const plane = squareTopology('SQUARE', 5, 4)!;
+        expect(moveCursor(plane, cursorAt(plane, plane.toIndex(0, 1)), 'LEFT')).toBeNull();
+    });
+
+    it('comes back mirrored after crossing a twisted edge', () => {
+        const mobius = squareTopology('MOBIUS', 5, 4)!;
+        const step = moveCursor(mobius, cursorAt(mobius, mobius.toIndex(4, 0)), 'RIGHT')!;
+        expect(step).toMatchObject({ seam: 'a', mirrored: true });
+        expect(step.cursor.index).toBe(mobius.toIndex(0, 3));
+    });
+
+    it('goes straight around the cube and returns facing the same way', () => {
+        const sphere = squareTopology('SPHERE', 3, 3)!;
+        for (const key of DIRECTIONS) {
+            const start = cursorAt(sphere, 1 + 3);
+            let cursor = start;
+            const visited = new Set<number>();
+            for (let i = 0; i < 12; i++) {
+                cursor = moveCursor(sphere, cursor, key)!.cursor;
+                visited.add(cursor.index);
+            }
+            expect(cursor).toEqual(start);
+            expect(visited.size).toBe(12);
+        }
+    });
+});
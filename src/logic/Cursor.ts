@@ -0,0 +1,142 @@
+/**
+ * src/logic/Cursor.ts
+ * キーボードで動かすカーソル: 矢印キーで画面上の (col, row) を1マスずつ動かし、貼り合わせた辺を越えて反対側へ回り込む
+ * 展開図に描く曲面では、面の辺を越えるたびにキーの向きを貼り合わせ先の面に合わせて回す（ひねった貼り合わせなら鏡像にする）
+ */
+
+import { describeCell, type Board, type Topology } from './GameCore.ts';
+import { mapLatticeCoordinate, type Point } from './Lattice.ts';
+import { fromPatchCell, patchNetCell, patchNetPoint, patchStep, toPatchCell, type PatchSide } from './PatchSurface.ts';
+import { tileOrientation } from './TopologyRegistry.ts';
+
+export type CursorDirection = 'LEFT' | 'RIGHT' | 'UP' | 'DOWN';
+
+// 2×2 の整数行列 [a, b, c, d]: キーの向き (x, y) を画面上の向き (ax + by, cx + dy) に写す
+type Frame = [number, number, number, number];
+
+export interface KeyboardCursor {
+    // 画面上の位置（無限タイリングの列・行、または展開図の列・行）
+    col: number;
+    row: number;
+    index: number;
+    frame: Frame;
+}
+
+export interface CursorStep {
+    cursor: KeyboardCursor;
+    // 越えた貼り合わせの記号（越えていなければ null）
+    seam: string | null;
+    // 越えた先で盤面が鏡像になった
+    mirrored: boolean;
+}
+
+const KEY_VECTORS: Record<CursorDirection, Point> = { LEFT: [-1, 0], RIGHT: [1, 0], UP: [0, -1], DOWN: [0, 1] };
+const SIDE_VECTORS: Record<PatchSide, Point> = { left: [-1, 0], right: [1, 0], top: [0, -1], bottom: [0, 1] };
+const IDENTITY: Frame = [1, 0, 0, 1];
+
+const apply = ([a, b, c, d]: Frame, [x, y]: Point): Point => [a * x + b * y, c * x + d * y];
+// -0 は 0 にそろえる（同じ向きどうしを比べられるように）
+const compose = ([a, b, c, d]: Frame, [e, f, g, h]: Frame): Frame =>
+    [a * e + b * g, a * f + b * h, c * e + d * g, c * f + d * h].map(v => v || 0) as Frame;
+
+// マスの置かれる位置（元の盤面、または展開図）にカーソルを置く
+export function cursorAt(topology: Topology, index: number): KeyboardCursor {
+    const layout = topology.definition.patches;
+    if (layout) {
+        const { col, row } = patchNetCell(layout, topology.width, topology.height, index);
+        return { col, row, index, frame: IDENTITY };
+    }
+    const { x, y } = topology.toCoord(index);
+    return { col: x, row: y, index, frame: IDENTITY };
+}
+
+/**
+ * 1マス動かす。開いた端の向こうなら null。
+ * 1枚の長方形の曲面は画面上でそのまま隣のコピーへ進み、左右の辺を越えれば a、上下なら b を返す。
+ */
+export function moveCursor(topology: Topology, cursor: KeyboardCursor, direction: CursorDirection): CursorStep | null {
+    if (topology.definition.patches) return movePatchCursor(topology, cursor, direction);
+
+    const { width, height, definition, lattice } = topology;
+    const [dx, dy] = KEY_VECTORS[direction];
+    const col = cursor.col + dx;
+    const row = cursor.row + dy;
+    const { nx, ny, valid } = mapLatticeCoordinate(lattice, definition, width, height, col, row);
+    if (!valid) return null;
+
+    const tile = (c: number, r: number) => [Math.floor(c / width), Math.floor(r / height)] as const;
+    const [fromX, fromY] = tile(cursor.col, cursor.row);
+    const [toX, toY] = tile(col, row);
+    const seam = fromX !== toX ? 'a' : fromY !== toY ? 'b' : null;
+    const before = tileOrientation(definition, fromX, fromY)!;
+    const after = tileOrientation(definition, toX, toY)!;
+    const mirrored = before.flipX !== after.flipX || before.flipY !== after.flipY;
+    return { cursor: { col, row, index: ny * width + nx, frame: IDENTITY }, seam, mirrored };
+}
+
+// 面の向きを考慮した、面の中の向き (dx, dy) の展開図上の向き
+function netVector(topology: Topology, patch: number, [dx, dy]: Point): Point {
+    const layout = topology.definition.patches!;
+    const [x0, y0] = patchNetPoint(layout, topology.width, topology.height, patch, 0, 0);
+    const [x1, y1] = patchNetPoint(layout, topology.width, topology.height, patch, dx, dy);
+    return [x1 - x0, y1 - y0];
+}
+
+const isVertical = (side: PatchSide) => side === 'left' || side === 'right';
+
+function movePatchCursor(topology: Topology, cursor: KeyboardCursor, direction: CursorDirection): CursorStep | null {
+    const layout = topology.definition.patches!;
+    const { width, height } = topology;
+    const cell = toPatchCell(width, height, cursor.index);
+    const [vx, vy] = apply(cursor.frame, KEY_VECTORS[direction]);
+    const side = (Object.keys(SIDE_VECTORS) as PatchSide[]).find(s => {
+        const [x, y] = netVector(topology, cell.patch, SIDE_VECTORS[s]);
+        return x === vx && y === vy;
+    })!;
+    const step = patchStep(layout, width, height, cell, side);
+    if (!step) return null;
+
+    const index = fromPatchCell(width, height, step.cell);
+    const { col, row } = patchNetCell(layout, width, height, index);
+    if (!step.seam) return { cursor: { col, row, index, frame: cursor.frame }, seam: null, mirrored: false };
+
+    // 出ていく向き D と辺に沿う向き T を、貼り合わせ先の面に入る向き D' と辺に沿う向き T' に重ねる回転（または鏡映）
+    const entry = step.seam.a.patch === cell.patch && step.seam.a.side === side ? step.seam.b : step.seam.a;
+    const tangent = (s: PatchSide, sign: number): Point => isVertical(s) ? [0, sign] : [sign, 0];
+    const [ix, iy] = SIDE_VECTORS[entry.side];
+    const out = netVector(topology, cell.patch, SIDE_VECTORS[side]);
+    const along = netVector(topology, cell.patch, tangent(side, 1));
+    const into = netVector(topology, entry.patch, [-ix, -iy]);
+    const alongInto = netVector(topology, entry.patch, tangent(entry.side, step.seam.reversed ? -1 : 1));
+    const turn: Frame = [
+        into[0] * out[0] + alongInto[0] * along[0], into[0] * out[1] + alongInto[0] * along[1],
+        into[1] * out[0] + alongInto[1] * along[0], into[1] * out[1] + alongInto[1] * along[1],
+    ];
+    const mirrored = turn[0] * turn[3] - turn[1] * turn[2] < 0;
+    return { cursor: { col, row, index, frame: compose(turn, cursor.frame) }, seam: step.seam.label, mirrored };
+}
+
+/**
+ * 読み上げ用のマスの説明（例: "(3, 4), 2 mines around"）。
+ * revealMines なら隠れた地雷も地雷として伝える（負けた後や盤面の確認中）。
+ */
+export function describeCursorCell(topology: Topology, board: Board | null, index: number, revealMines: boolean): string {
+    const where = describeCell({ topology }, index);
+    if (!board) return `${where}, hidden`;
+    const count = board.neighborMineCounts[index];
+    switch (board.status[index]) {
+        case 'FLAGGED':
+            return `${where}, flagged${revealMines && !board.mines[index] ? ' (no mine)' : ''}`;
+        case 'OPENED':
+            if (board.mines[index]) return `${where}, exploded mine`;
+            return `${where}, ${count === 0 ? 'empty' : `${count} mine${count === 1 ? '' : 's'} around`}`;
+        default:
+            return `${where}, ${revealMines && board.mines[index] ? 'mine' : 'hidden'}`;
+    }
+}
+
+// 移動したときの読み上げ（貼り合わせを越えたらそれも伝える）
+export function describeCursorStep(step: CursorStep, cell: string): string {
+    if (!step.seam) return cell;
+    return `${cell} — crossed edge ${step.seam}${step.mirrored ? ', mirrored' : ''}`;
+}
@@ -0,0 +1,52 @@
+/**
+ * src/logic/Daily.test.ts
+ * デイリーチャレンジ: 日付から決まる盤面は毎回同じで作れる設定になり、結果は日付ごとに最初の1回だけ残る
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createTopology, validateConfig } from './GameCore.ts';
+import {
+    dailyStreak, dateKey, emptyDailyResults, getDailyChallenge, isDateKey, recordDailyResult, type DailyResult
+} from './Daily.ts';
+
+const result = (won: boolean, timeMs = 1000): DailyResult => ({ won, timeMs, clicks: 10, hints: 0, finishedAt: 0 });
+
+describe('Daily challenge', () => {
+    it('derives the same valid challenge from the same date', () => {
+        const day = new Date(2024, 0, 1);
+        const seeds = new Set<number>();
+        for (let i = 0; i < 120; i++) {
+            const date = dateKey(day);
+            const challenge = getDailyChallenge(date);
+            expect(getDailyChallenge(date)).toEqual(challenge);
+            expect(validateConfig(challenge.config).errors).toEqual([]);
+            expect(challenge.startIndex).toBeLessThan(createTopology(challenge.config).size);
+            seeds.add(challenge.seed);
+            day.setDate(day.getDate() + 1);
+        }
+        expect(seeds.size).toBe(120);
+    });
+
+    it('recognises only real calendar dates', () => {
+        expect(isDateKey('2024-02-29')).toBe(true);
+        expect(isDateKey('2023-02-29')).toBe(false);
+        expect(isDateKey('2024-2-9')).toBe(false);
+    });
+
+    it('keeps only the first result of each day', () => {
+        const first = recordDailyResult(emptyDailyResults(), '2024-03-01', result(false));
+        const second = recordDailyResult(first, '2024-03-01', result(true));
+        expect(second).toBe(first);
+        expect(second.results['2024-03-01'].won).toBe(false);
+    });
+
+    it('counts the streak of cleared days up to today or yesterday', () => {
+        let daily = emptyDailyResults();
+        for (const date of ['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']) {
+            daily = recordDailyResult(daily, date, result(date !== '2024-02-27'));
+        }
+        expect(dailyStreak(daily, '2024-03-01')).toBe(3);
+        expect(dailyStreak(daily, '2024-03-02')).toBe(3);
+        expect(dailyStreak(daily, '2024-03-03')).toBe(0);
+    });
+});
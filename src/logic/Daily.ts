@@ -0,0 +1,154 @@
+/**
+ * src/logic/Daily.ts
+ * デイリーチャレンジ: 日付からトポロジー・プリセット・シードを決め、その日は誰でも同じ盤面を遊ぶ
+ * 結果（タイム・クリック数・ヒントの回数）は日付ごとに localStorage に記録する
+ */
+
+import { DIFFICULTY_PRESETS, centerCell, createRandom, validateConfig, type GameConfig } from './GameCore.ts';
+import { listTopologies } from './TopologyRegistry.ts';
+import { formatTime } from './Statistics.ts';
+
+export const DAILY_VERSION = 1;
+
+const STORAGE_KEY = 'topological-minesweeper:daily';
+
+// 上級より大きいプリセットは、生成に時間がかかりすぎる日が出るので使わない
+const DAILY_PRESETS = [0, 1, 2];
+
+export interface DailyChallenge {
+    // 端末の地域の日付 (YYYY-MM-DD)
+    date: string;
+    config: GameConfig;
+    presetIndex: number;
+    seed: number;
+    // 最初のクリック（自動で開く）
+    startIndex: number;
+}
+
+export interface DailyResult {
+    won: boolean;
+    timeMs: number;
+    // 最初のクリックを除く、開く・旗・コードの回数
+    clicks: number;
+    hints: number;
+    finishedAt: number;
+}
+
+export interface DailyResults {
+    version: typeof DAILY_VERSION;
+    // 日付ごとの最初の結果
+    results: Record<string, DailyResult>;
+}
+
+export function dateKey(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function isDateKey(value: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return false;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return dateKey(date) === value;
+}
+
+// 日付の文字列から32ビットのシードを作る（FNV-1a）
+function hashDate(date: string): number {
+    let hash = 0x811C9DC5;
+    for (const char of `daily:${date}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * その日のチャレンジ。同じ日付からは、どの端末でもオフラインで同じ盤面になる
+ * （盤面は generateBoardAsync に同じ設定・最初のクリック・シードを渡して作る）。
+ * 幅と高さが同じでなければならない曲面など、作れない組み合わせは候補から外す。
+ */
+export function getDailyChallenge(date: string): DailyChallenge {
+    const seed = hashDate(date);
+    const random = createRandom(seed);
+    const candidates = listTopologies().flatMap(({ type }) => DAILY_PRESETS
+        .map(presetIndex => {
+            const { width, height, mines } = DIFFICULTY_PRESETS[presetIndex];
+            return { presetIndex, config: { width, height, mines, topologyType: type } };
+        })
+        .filter(({ config }) => validateConfig(config).errors.length === 0));
+    const { presetIndex, config } = candidates[Math.floor(random() * candidates.length)];
+    return { date, config, presetIndex, seed, startIndex: centerCell(config) };
+}
+
+export function emptyDailyResults(): DailyResults {
+    return { version: DAILY_VERSION, results: {} };
+}
+
+// その日の最初の結果だけを記録する（2回目以降は元のまま返す）
+export function recordDailyResult(daily: DailyResults, date: string, result: DailyResult): DailyResults {
+    if (daily.results[date]) return daily;
+    return { ...daily, results: { ...daily.results, [date]: result } };
+}
+
+// 連続してクリアした日数（今日がまだなら昨日から数える）
+export function dailyStreak(daily: DailyResults, today: string): number {
+    const day = new Date(`${today}T00:00:00`);
+    if (!daily.results[today]) day.setDate(day.getDate() - 1);
+    let streak = 0;
+    while (daily.results[dateKey(day)]?.won) {
+        streak++;
+        day.setDate(day.getDate() - 1);
+    }
+    return streak;
+}
+
+export function describeDailyChallenge(challenge: DailyChallenge): string {
+    const { config, presetIndex } = challenge;
+    return `${config.topologyType} · ${DIFFICULTY_PRESETS[presetIndex].label} ${config.width}×${config.height} / ${config.mines} mines`;
+}
+
+// 貼り付けて共有するための結果の要約（盤面の中身は含めない）
+export function formatDailySummary(challenge: DailyChallenge, result: DailyResult): string {
+    const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    const outcome = result.won ? `✅ Cleared in ${formatTime(result.timeMs)}` : `💥 Hit a mine after ${formatTime(result.timeMs)}`;
+    const hints = result.hints === 0 ? 'no hints' : plural(result.hints, 'hint');
+    return [
+        `Topological Minesweeper · Daily ${challenge.date}`,
+        describeDailyChallenge(challenge),
+        `${outcome} · ${plural(result.clicks, 'click')} · ${hints}`,
+    ].join('\n');
+}
+
+function isValidResult(value: unknown): value is DailyResult {
+    if (typeof value !== 'object' || value === null) return false;
+    const result = value as Record<string, unknown>;
+    const counts = [result.timeMs, result.clicks, result.hints, result.finishedAt];
+    return typeof result.won === 'boolean' && counts.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0);
+}
+
+// 壊れた記録は読み飛ばす
+export function loadDailyResults(): DailyResults {
+    try {
+        const text = localStorage.getItem(STORAGE_KEY);
+        if (text === null) return emptyDailyResults();
+        const data = JSON.parse(text);
+        if (data?.version !== DAILY_VERSION || typeof data.results !== 'object' || data.results === null) {
+            return emptyDailyResults();
+        }
+        const results: Record<string, DailyResult> = {};
+        for (const [date, value] of Object.entries(data.results)) {
+            if (isDateKey(date) && isValidResult(value)) results[date] = value;
+        }
+        return { version: DAILY_VERSION, results };
+    } catch {
+        return emptyDailyResults();
+    }
+}
+
+export function storeDailyResults(daily: DailyResults) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(daily));
+    } catch {
+        // 保存できなくてもゲームは続けられる
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * src/logic/Difficulty.ts
+ * 難易度の評価: 盤面を解くのに使った推論の種類と回数から点数と段階を求める
+ * 生成時に「基本の推論だけで解ける」「深読みが3回以上必要」のような範囲を指定するのにも使う
+ */
+
+import type { Deduction, DeductionTechnique } from './GameCore.ts';
+
+export type TechniqueCounts = Record<DeductionTechnique, number>;
+
+// 軽い順。点数は各推論の回数 × 重みの合計（基本の推論は数えない）
+const TECHNIQUE_WEIGHTS: TechniqueCounts = { BASIC: 0, GLOBAL: 1, SUBSET: 2, DEEP: 4, EXACT: 10 };
+export const TECHNIQUE_ORDER = Object.keys(TECHNIQUE_WEIGHTS) as DeductionTechnique[];
+
+export type DifficultyLevel = 'EASY' | 'MEDIUM' | 'HARD' | 'FIENDISH';
+
+// 点数がこの値未満ならその段階
+const LEVEL_THRESHOLDS: [DifficultyLevel, number][] = [
+    ['EASY', 2],
+    ['MEDIUM', 12],
+    ['HARD', 40],
+    ['FIENDISH', Infinity],
+];
+
+export const LEVEL_LABELS: Record<DifficultyLevel, string> = {
+    EASY: 'Easy',
+    MEDIUM: 'Medium',
+    HARD: 'Hard',
+    FIENDISH: 'Fiendish',
+};
+
+export interface DifficultyGrade {
+    counts: TechniqueCounts;
+    score: number;
+    level: DifficultyLevel;
+    // 使った中で最も重い推論（推論が1つもなければ BASIC）
+    hardest: DeductionTechnique;
+}
+
+export function gradeDeductions(deductions: Deduction[]): DifficultyGrade {
+    const counts = Object.fromEntries(TECHNIQUE_ORDER.map(t => [t, 0])) as TechniqueCounts;
+    for (const d of deductions) counts[d.technique]++;
+
+    const score = TECHNIQUE_ORDER.reduce((sum, t) => sum + counts[t] * TECHNIQUE_WEIGHTS[t], 0);
+    const level = LEVEL_THRESHOLDS.find(([, limit]) => score < limit)![0];
+    const hardest = [...TECHNIQUE_ORDER].reverse().find(t => counts[t] > 0) ?? 'BASIC';
+    return { counts, score, level, hardest };
+}
+
+// 「BASIC 12 · GLOBAL 1 · DEEP 3」のような内訳（0回の推論は省く）
+export function formatTechniqueCounts(counts: TechniqueCounts): string {
+    return TECHNIQUE_ORDER.filter(t => counts[t] > 0).map(t => `${t} ${counts[t]}`).join(' · ');
+}
+
+export type DifficultyBandType = 'ANY' | 'BASIC_ONLY' | 'LOOKAHEAD' | 'EXHAUSTIVE';
+
+export interface DifficultyBand {
+    type: DifficultyBandType;
+    label: string;
+    // これより重い推論を使わずに解けること
+    maxTechnique?: DeductionTechnique;
+    // 推論ごとの最低回数
+    minCounts?: Partial<TechniqueCounts>;
+}
+
+const DIFFICULTY_BANDS: Record<DifficultyBandType, DifficultyBand> = {
+    ANY: { type: 'ANY', label: 'Any' },
+    BASIC_ONLY: { type: 'BASIC_ONLY', label: 'Basic only', maxTechnique: 'BASIC' },
+    LOOKAHEAD: { type: 'LOOKAHEAD', label: '≥ 3 deep deductions', minCounts: { DEEP: 3 } },
+    EXHAUSTIVE: { type: 'EXHAUSTIVE', label: 'Needs exhaustive search', minCounts: { EXACT: 1 } },
+};
+
+export function isDifficultyBandType(value: unknown): value is DifficultyBandType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTY_BANDS, value);
+}
+
+export function getDifficultyBand(type: DifficultyBandType): DifficultyBand {
+    return DIFFICULTY_BANDS[type];
+}
+
+export function listDifficultyBands(): DifficultyBand[] {
+    return Object.values(DIFFICULTY_BANDS);
+}
+
+export function matchesBand(grade: DifficultyGrade, band: DifficultyBand): boolean {
+    if (band.maxTechnique !== undefined
+        && TECHNIQUE_ORDER.indexOf(grade.hardest) > TECHNIQUE_ORDER.indexOf(band.maxTechnique)) {
+        return false;
+    }
+    return TECHNIQUE_ORDER.every(t => grade.counts[t] >= (band.minCounts?.[t] ?? 0));
+}
+
+// この範囲を判定するのに厳密解法まで使う必要があるか
+export function bandNeedsExact(band: DifficultyBand): boolean {
+    return (band.minCounts?.EXACT ?? 0) > 0;
+}
@@ -1,9 +1,25 @@
 /**
  * src/logic/GameCore.ts
- * コアロジック: トポロジー、盤面管理、ソルバー、勝利判定
+ * コアロジック: トポロジー、盤面管理、ソルバー、勝利判定、盤面ファイルの読み書き
  */
 
-export type TopologyType = 'TORUS' | 'SQUARE' | 'MOBIUS' | 'KLEIN' | 'PROJECTIVE';
+import { getTopologyDefinition, type TopologyDefinition, type TopologyType } from './TopologyRegistry.ts';
+import { getLattice, isLatticeType, mapLatticeCoordinate, type LatticeDefinition, type LatticeType, type Point } from './Lattice.ts';
+import { buildPatchAdjacency, patchCellCount, patchLayoutErrors, toPatchCell } from './PatchSurface.ts';
+import {
+    customOffsetErrors, formatOffsets, isNeighborhoodType, neighborhoodOffsets, parseOffsets, type NeighborhoodType
+} from './Neighborhood.ts';
+import {
+    bandNeedsExact, getDifficultyBand, gradeDeductions, isDifficultyBandType, matchesBand,
+    type DifficultyBandType, type DifficultyGrade
+} from './Difficulty.ts';
+
+import { MoveHistory, type HistoryEntry, type MoveType } from './MoveHistory.ts';
+
+export type { TopologyType } from './TopologyRegistry.ts';
+export type { LatticeType } from './Lattice.ts';
+export type { NeighborhoodType } from './Neighborhood.ts';
+export type { DifficultyBandType, DifficultyGrade } from './Difficulty.ts';
 export type CellStatus = 'HIDDEN' | 'OPENED' | 'FLAGGED';
 
 export interface GameConfig {
@@ -11,6 +27,13 @@ export interface GameConfig {
     height: number;
     mines: number;
     topologyType: TopologyType;
+    // マスの形（省略時は正方形）
+    lattice?: LatticeType;
+    // 隣接ルール（省略時は周囲8マス）。CUSTOM のときは customOffsets のずれを使う
+    neighborhood?: NeighborhoodType;
+    customOffsets?: Point[];
+    // 生成する盤面の難易度の範囲（省略時は解ければどれでもよい）
+    difficulty?: DifficultyBandType;
 }
 
 export const DIFFICULTY_PRESETS = [
@@ -20,16 +43,144 @@ export const DIFFICULTY_PRESETS = [
     { label: '超上級 (Maniac)', width: 48, height: 24, mines: 256 },
 ];
 
+// 再現可能な疑似乱数生成器 (mulberry32)。同じシードからは常に同じ列が出る
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// 新しいゲーム用のシード（32bit 符号なし整数）
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+}
+
+// 盤面の一辺の上限（これ以上は描画・生成が現実的な時間で終わらない）
+export const MAX_DIMENSION = 100;
+
+// 盤面生成の最大試行回数
+export const MAX_RETRY = 2000;
+
+// この密度を超えると、MAX_RETRY 回以内に論理的に解ける盤面が見つかりにくい
+const DENSITY_WARNING = 0.25;
+
+export interface ConfigValidation {
+    // 生成できない設定
+    errors: string[];
+    // 生成はできるが失敗しやすい設定
+    warnings: string[];
+}
+
+/**
+ * 盤面の形（トポロジー・格子・隣接ルール・幅・高さ）だけの検証。
+ * 地雷数によらず、隣接を作れる設定かどうかを確認する。
+ */
+export function topologyErrors(config: Omit<GameConfig, 'mines'>): string[] {
+    const errors: string[] = [];
+    const { width, height, topologyType, lattice, neighborhood } = config;
+
+    let definition: TopologyDefinition | null = null;
+    try {
+        definition = getTopologyDefinition(topologyType);
+    } catch {
+        errors.push(`Unknown topology: ${topologyType}`);
+    }
+    if (lattice !== undefined && !isLatticeType(lattice)) {
+        errors.push(`Unknown lattice: ${lattice}`);
+    }
+    if (neighborhood !== undefined && !isNeighborhoodType(neighborhood)) {
+        errors.push(`Unknown neighbourhood: ${neighborhood}`);
+    } else if (neighborhood !== undefined && neighborhood !== 'MOORE' && (lattice ?? 'SQUARE') !== 'SQUARE') {
+        errors.push('Neighbourhood rules other than the default apply only to the square lattice.');
+    } else if (neighborhood === 'CUSTOM') {
+        errors.push(...customOffsetErrors(config.customOffsets));
+    }
+    if (config.difficulty !== undefined && !isDifficultyBandType(config.difficulty)) {
+        errors.push(`Unknown difficulty band: ${config.difficulty}`);
+    }
+    for (const [name, value] of [['Width', width], ['Height', height]] as const) {
+        if (!Number.isInteger(value) || value < 1 || value > MAX_DIMENSION) {
+            errors.push(`${name} must be an integer between 1 and ${MAX_DIMENSION}.`);
+        }
+    }
+    if (errors.length > 0 || !definition) return errors;
+
+    // 複数の面からなる曲面は正方形のマスで、面の角でも意味が決まる周囲8マスか上下左右だけ
+    if (definition.patches) {
+        if ((lattice ?? 'SQUARE') !== 'SQUARE') errors.push(`${topologyType} is built from square patches, so it needs the square lattice.`);
+        if (neighborhood !== undefined && neighborhood !== 'MOORE' && neighborhood !== 'VON_NEUMANN') {
+            errors.push(`${topologyType} supports only the 8-cell and 4-cell neighbourhoods: other offsets are ambiguous at the corners where the patches meet.`);
+        }
+        errors.push(...patchLayoutErrors(definition.patches, width, height));
+    }
+    if (errors.length > 0) return errors;
+
+    // 六角形・三角形は、貼り合わせる辺の向こうでも格子がつながる幅・高さでなければならない
+    return getLattice(lattice).gluingErrors(definition, width, height);
+}
+
+/**
+ * 盤面設定の検証。
+ * どのマスを最初にクリックしても安全地帯の外に地雷を置けるかまで確認する。
+ */
+export function validateConfig(config: GameConfig): ConfigValidation {
+    const errors = topologyErrors(config);
+    const warnings: string[] = [];
+    const { width, height, mines } = config;
+
+    if (!Number.isInteger(mines) || mines < 1) {
+        errors.push('Mines must be a positive integer.');
+    }
+    if (errors.length > 0) return { errors, warnings };
+
+    // 最初のクリックの安全地帯（自分と隣接マス）が最も大きくなる場合でも置けるか
+    const topology = createTopology(config);
+    const size = topology.size;
+    let maxSafeZone = 0;
+    for (let i = 0; i < size; i++) {
+        maxSafeZone = Math.max(maxSafeZone, topology.getNeighbors(i).length + 1);
+    }
+    const available = size - maxSafeZone;
+    if (mines > available) {
+        errors.push(`At most ${Math.max(0, available)} mines fit outside the first-click safe zone on a ${width}×${height} board.`);
+        return { errors, warnings };
+    }
+
+    const density = mines / size;
+    if (density > DENSITY_WARNING) {
+        warnings.push(`Mine density ${Math.round(density * 100)}% is high: a board solvable without guessing may not be found within ${MAX_RETRY} attempts.`);
+    }
+    if (width < 3 || height < 3) {
+        warnings.push('Boards narrower than 3 cells wrap onto themselves, so cells have fewer distinct neighbours.');
+    }
+    return { errors, warnings };
+}
+
 export class Topology {
     width: number;
     height: number;
     type: TopologyType;
+    definition: TopologyDefinition;
+    lattice: LatticeDefinition;
+    // 隣接ルールのずれ（null なら格子自身の隣接）
+    offsets: Point[] | null;
+    // マスの数（複数の面からなる曲面では 面の数 × 幅 × 高さ。幅・高さは面1枚の大きさ）
+    size: number;
     adjacencyList: number[][];
 
-    constructor(w: number, h: number, type: TopologyType) {
+    constructor(w: number, h: number, type: TopologyType, lattice: LatticeType = 'SQUARE', offsets: Point[] | null = null) {
         this.width = w;
         this.height = h;
         this.type = type;
+        this.definition = getTopologyDefinition(type);
+        this.lattice = getLattice(lattice);
+        this.offsets = offsets;
+        this.size = this.definition.patches ? patchCellCount(this.definition.patches, w, h) : w * h;
         this.adjacencyList = [];
         this.buildGraph();
     }
@@ -42,84 +193,46 @@ export class Topology {
         return { x: index % this.width, y: Math.floor(index / this.width) };
     }
 
+    // (x, y) から隣接マスへのずれ
+    neighborOffsets(x: number, y: number): Point[] {
+        return this.offsets ?? this.lattice.neighborOffsets(x, y);
+    }
+
     private buildGraph() {
+        // 複数の面からなる曲面: 面の角で集まるマスの数が4とは限らないので、頂点（上下左右なら辺）の共有で決める
+        if (this.definition.patches) {
+            if (this.offsets && !this.offsets.every(([dx, dy]) => Math.abs(dx) + Math.abs(dy) === 1)) {
+                throw new Error(`Topology ${this.type}: only the 8-cell and 4-cell neighbourhoods are defined on patch surfaces`);
+            }
+            this.adjacencyList = buildPatchAdjacency(this.definition.patches, this.width, this.height, this.offsets !== null);
+            return;
+        }
+
         const total = this.width * this.height;
         for (let i = 0; i < total; i++) {
             const { x, y } = this.toCoord(i);
             const neighbors: number[] = [];
             
-            for (let dy = -1; dy <= 1; dy++) {
-                for (let dx = -1; dx <= 1; dx++) {
-                    if (dx === 0 && dy === 0) continue;
-                    
-                    const targetX = x + dx;
-                    const targetY = y + dy;
-
-                    const { nx, ny, valid } = this.mapCoordinate(targetX, targetY);
-
-                    if (valid) {
-                        neighbors.push(this.toIndex(nx, ny));
-                    }
+            // 隣接の形は隣接ルール、指定がなければ格子（正方形なら周囲8マス）が決める
+            for (const [dx, dy] of this.neighborOffsets(x, y)) {
+                const targetX = x + dx;
+                const targetY = y + dy;
+
+                const { nx, ny, valid } = this.mapCoordinate(targetX, targetY);
+                if (!valid) continue;
+
+                // 幅や高さが1～2の閉曲面では、同じマスや自分自身に何度も行き着くので除く
+                const neighbor = this.toIndex(nx, ny);
+                if (neighbor !== i && !neighbors.includes(neighbor)) {
+                    neighbors.push(neighbor);
                 }
             }
             this.adjacencyList[i] = neighbors;
         }
     }
 
-    private mapCoordinate(tx: number, ty: number): { nx: number, ny: number, valid: boolean } {
-        const w = this.width;
-        const h = this.height;
-        
-        // 何周目か
-        const loopX = Math.floor(tx / w);
-        const loopY = Math.floor(ty / h);
-
-        // 基本座標（0 ～ size-1）
-        let nx = ((tx % w) + w) % w;
-        let ny = ((ty % h) + h) % h;
-        let valid = true;
-
-        switch (this.type) {
-            case 'SQUARE':
-                if (loopX !== 0 || loopY !== 0) valid = false;
-                break;
-            case 'TORUS':
-                // 常に有効、通常のループ
-                break;
-            case 'MOBIUS':
-                // 左右ループ時(loopX)は奇数回で上下反転。
-                // 上下ループ時(loopY)はつながらない。
-                if (loopY !== 0) {
-                    valid = false;
-                } else {
-                    if (loopX % 2 !== 0) {
-                        ny = h - 1 - ny;
-                    }
-                }
-                break;
-            case 'KLEIN':
-                // 左右ループ(loopX)は通常。
-                // 上下ループ(loopY)は奇数回で左右反転。
-                if (loopY % 2 !== 0) {
-                    nx = w - 1 - nx;
-                }
-                // クラインの壺は閉曲面なので常にvalid
-                break;
-            case 'PROJECTIVE':
-                // 射影平面
-                // 左右ループ奇数回 -> 上下反転
-                if (loopX % 2 !== 0) {
-                    ny = h - 1 - ny;
-                }
-                // 上下ループ奇数回 -> 左右反転
-                if (loopY % 2 !== 0) {
-                    nx = w - 1 - nx;
-                }
-                // 閉曲面なので常にvalid
-                break;
-        }
-
-        return { nx, ny, valid };
+    mapCoordinate(tx: number, ty: number): { nx: number, ny: number, valid: boolean } {
+        return mapLatticeCoordinate(this.lattice, this.definition, this.width, this.height, tx, ty);
     }
 
     getNeighbors(index: number): number[] {
@@ -127,18 +240,44 @@ export class Topology {
     }
 }
 
+// 設定の盤面のマスの数（未登録のトポロジーなら幅 × 高さ）
+export function cellCount(config: GameConfig): number {
+    let definition: TopologyDefinition;
+    try {
+        definition = getTopologyDefinition(config.topologyType);
+    } catch {
+        return config.width * config.height;
+    }
+    return definition.patches ? patchCellCount(definition.patches, config.width, config.height) : config.width * config.height;
+}
+
+// 設定の格子と隣接ルールで盤面の隣接グラフを作る
+export function createTopology(config: GameConfig): Topology {
+    return new Topology(
+        config.width, config.height, config.topologyType, config.lattice,
+        neighborhoodOffsets(config.neighborhood, config.customOffsets)
+    );
+}
+
+// 盤面（複数の面からなる曲面では最初の面）の中央のマス。決まった最初のクリックに使う
+export function centerCell(config: GameConfig): number {
+    return createTopology(config).toIndex(Math.floor(config.width / 2), Math.floor(config.height / 2));
+}
+
 export class Board {
     topology: Topology;
     mines: boolean[];
     status: CellStatus[];
     neighborMineCounts: number[];
+    history: MoveHistory;
 
     constructor(topology: Topology) {
         this.topology = topology;
-        const size = topology.width * topology.height;
+        const size = topology.size;
         this.mines = new Array(size).fill(false);
         this.status = new Array(size).fill('HIDDEN');
         this.neighborMineCounts = new Array(size).fill(0);
+        this.history = new MoveHistory();
     }
 
     clone(): Board {
@@ -146,12 +285,16 @@ export class Board {
         newBoard.status = [...this.status];
         newBoard.neighborMineCounts = [...this.neighborMineCounts];
         newBoard.mines = [...this.mines];
+        newBoard.history = this.history.clone();
         return newBoard;
     }
 
-    placeMines(mineCount: number, startIndex: number) {
-        const size = this.topology.width * this.topology.height;
+    placeMines(mineCount: number, startIndex: number, random: () => number = Math.random) {
+        const size = this.topology.size;
         const safeZone = new Set([startIndex, ...this.topology.getNeighbors(startIndex)]);
+        if (mineCount > size - safeZone.size) {
+            throw new Error(`Cannot place ${mineCount} mines outside the first-click safe zone (${size - safeZone.size} cells available)`);
+        }
         
         let placed = 0;
         let safety = 0;
@@ -159,7 +302,7 @@ export class Board {
         
         while (placed < mineCount && safety < size * 20) {
             safety++;
-            const idx = Math.floor(Math.random() * size);
+            const idx = Math.floor(random() * size);
             if (!this.mines[idx] && !safeZone.has(idx)) {
                 this.mines[idx] = true;
                 placed++;
@@ -168,6 +311,12 @@ export class Board {
         this.calcNumbers();
     }
 
+    // 既知の地雷配置をそのまま読み込む（ワーカーから受け取った盤面の復元など）
+    setMines(mines: boolean[]) {
+        this.mines = [...mines];
+        this.calcNumbers();
+    }
+
     private calcNumbers() {
         const size = this.mines.length;
         for (let i = 0; i < size; i++) {
@@ -183,23 +332,42 @@ export class Board {
         }
     }
 
-    open(index: number): boolean {
+    // onOpen: 連鎖して開いたマスも含め、開いたマスごとに呼ばれる（ソルバーが制約を更新するのに使う）
+    open(index: number, onOpen?: (index: number) => void): boolean {
         if (this.status[index] !== 'HIDDEN') return false;
         
         if (this.mines[index]) {
             this.status[index] = 'OPENED'; 
+            onOpen?.(index);
             return true; // 爆発
         }
 
         this.status[index] = 'OPENED';
+        onOpen?.(index);
         if (this.neighborMineCounts[index] === 0) {
             for (const n of this.topology.getNeighbors(index)) {
-                this.open(n);
+                this.open(n, onOpen);
             }
         }
         return false;
     }
 
+    // コード（両押し）: 開いた数字マスの周りの旗の数が数字と一致していれば、残りの隠れた隣接マスをすべて開く
+    // 隣接はトポロジーに従うので、貼り合わせた辺の向こう側も開く。間違った旗があれば爆発する
+    chord(index: number): boolean {
+        if (this.status[index] !== 'OPENED' || this.neighborMineCounts[index] <= 0) return false;
+
+        const neighbors = this.topology.getNeighbors(index);
+        const flags = neighbors.filter(n => this.status[n] === 'FLAGGED').length;
+        if (flags !== this.neighborMineCounts[index]) return false;
+
+        let exploded = false;
+        for (const n of neighbors) {
+            if (this.open(n)) exploded = true;
+        }
+        return exploded;
+    }
+
     toggleFlag(index: number) {
         if (this.status[index] === 'HIDDEN') {
             this.status[index] = 'FLAGGED';
@@ -208,6 +376,71 @@ export class Board {
         }
     }
 
+    // --- 履歴付きの操作 ---
+
+    // 操作を適用して履歴に記録する。地雷を踏んだら true。何も変化しなかった操作は記録しない
+    perform(type: MoveType, index: number, timestamp: number = Date.now()): boolean {
+        const before = [...this.status];
+        const exploded = this.applyMove(type, index);
+
+        const opened: number[] = [];
+        let changed = false;
+        for (let i = 0; i < before.length; i++) {
+            if (before[i] === this.status[i]) continue;
+            changed = true;
+            if (this.status[i] === 'OPENED') opened.push(i);
+        }
+        if (!changed) return false;
+
+        this.history.log.push({ type, index, timestamp });
+        this.history.undoStack.push({ type, index, opened, exploded });
+        this.history.redoStack = [];
+        return exploded;
+    }
+
+    private applyMove(type: MoveType, index: number): boolean {
+        switch (type) {
+            case 'OPEN': return this.open(index);
+            case 'CHORD': return this.chord(index);
+            case 'FLAG':
+                this.toggleFlag(index);
+                return false;
+        }
+    }
+
+    // 直前の操作を取り消す（allowFatal: 練習モードで地雷を踏んだ操作も取り消す）
+    undo(allowFatal = false, timestamp: number = Date.now()): boolean {
+        if (!this.history.canUndo(allowFatal)) return false;
+        const entry = this.history.undoStack.pop()!;
+        this.revert(entry);
+        if (entry.exploded) this.history.undidFatal = true;
+        this.history.redoStack.push(entry);
+        this.history.log.push({ type: 'UNDO', timestamp });
+        return true;
+    }
+
+    redo(timestamp: number = Date.now()): boolean {
+        const entry = this.history.redoStack.pop();
+        if (!entry) return false;
+        this.applyMove(entry.type, entry.index);
+        this.history.undoStack.push(entry);
+        this.history.log.push({ type: 'REDO', timestamp });
+        return true;
+    }
+
+    private revert(entry: HistoryEntry) {
+        if (entry.type === 'FLAG') {
+            this.toggleFlag(entry.index);
+            return;
+        }
+        for (const i of entry.opened) this.status[i] = 'HIDDEN';
+    }
+
+    // 地雷を開いてしまったか
+    hasExploded(): boolean {
+        return this.status.some((s, i) => s === 'OPENED' && this.mines[i]);
+    }
+
     // フラグの数を数える
     countFlags(): number {
         return this.status.filter(s => s === 'FLAGGED').length;
@@ -215,7 +448,7 @@ export class Board {
 
     // 勝利判定: 地雷以外の全てのマスが開いているか
     checkWin(): boolean {
-        const size = this.topology.width * this.topology.height;
+        const size = this.topology.size;
         for (let i = 0; i < size; i++) {
             // 地雷じゃないのに、開いていないマスがあればまだ勝利ではない
             if (!this.mines[i] && this.status[i] !== 'OPENED') {
@@ -226,143 +459,540 @@ export class Board {
     }
 }
 
+// 表示用の座標（1始まり。複数の面からなる曲面では面の名前を付ける）
+export function describeCell({ topology }: Pick<Board, 'topology'>, index: number): string {
+    const { width, height, definition } = topology;
+    if (definition.patches) {
+        const { patch, x, y } = toPatchCell(width, height, index);
+        return `(${definition.patches.patches[patch].label}: ${x + 1}, ${y + 1})`;
+    }
+    const { x, y } = topology.toCoord(index);
+    return `(${x + 1}, ${y + 1})`;
+}
+
+// STANDARD: 基本・全体数・数字の組の比較・深読みの4段階 / EXACT: さらに全解列挙による厳密解法を使う
+export type SolverMode = 'STANDARD' | 'EXACT';
+
+// 厳密解法で1つの連結成分を列挙するときの探索ノード数の上限
+const EXACT_SEARCH_LIMIT = 200000;
+
+// 連結成分ごとの列挙結果
+interface ComponentSolutions {
+    cells: number[];
+    // counts[k]: 地雷がちょうど k 個になる解の数
+    counts: number[];
+    // mineCounts[j][k]: 地雷 k 個の解のうち cells[j] が地雷である解の数
+    mineCounts: number[][];
+}
+
+// 地雷数分布同士の畳み込み
+function convolve(a: number[], b: number[]): number[] {
+    const result = new Array(a.length + b.length - 1).fill(0);
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === 0) continue;
+        for (let j = 0; j < b.length; j++) {
+            result[i + j] += a[i] * b[j];
+        }
+    }
+    return result;
+}
+
+/**
+ * 1つの連結成分について、制約を満たす地雷配置をすべて列挙する。
+ * constraints は成分内ローカルの変数番号で表した { vars, target }。
+ * 探索が上限を超えた場合は null を返す。
+ */
+function enumerateComponent(
+    cells: number[],
+    constraints: { vars: number[], target: number }[],
+    maxMines: number
+): ComponentSolutions | null {
+    const n = cells.length;
+    const varConstraints: number[][] = cells.map(() => []);
+    constraints.forEach((c, ci) => c.vars.forEach(v => varConstraints[v].push(ci)));
+
+    const assignedMines = new Array(constraints.length).fill(0);
+    const unassigned = constraints.map(c => c.vars.length);
+    const assignment = new Array(n).fill(0);
+    const counts = new Array(Math.min(n, maxMines) + 1).fill(0);
+    const mineCounts = cells.map(() => new Array(counts.length).fill(0));
+    let nodes = 0;
+
+    const search = (pos: number, mines: number): boolean => {
+        if (++nodes > EXACT_SEARCH_LIMIT) return false;
+        if (pos === n) {
+            counts[mines]++;
+            for (let j = 0; j < n; j++) {
+                if (assignment[j]) mineCounts[j][mines]++;
+            }
+            return true;
+        }
+        for (const value of [0, 1]) {
+            if (mines + value > maxMines) continue;
+            const feasible = varConstraints[pos].every(ci => {
+                const m = assignedMines[ci] + value;
+                return m <= constraints[ci].target && m + unassigned[ci] - 1 >= constraints[ci].target;
+            });
+            if (!feasible) continue;
+
+            assignment[pos] = value;
+            for (const ci of varConstraints[pos]) { assignedMines[ci] += value; unassigned[ci]--; }
+            const ok = search(pos + 1, mines + value);
+            for (const ci of varConstraints[pos]) { assignedMines[ci] -= value; unassigned[ci]++; }
+            assignment[pos] = 0;
+            if (!ok) return false;
+        }
+        return true;
+    };
+
+    if (!search(0, 0)) return null;
+    return { cells, counts, mineCounts };
+}
+
+// どの段階の推論で確定したか
+export type DeductionTechnique = 'BASIC' | 'GLOBAL' | 'SUBSET' | 'DEEP' | 'EXACT';
+
+export interface Deduction {
+    cell: number;
+    isMine: boolean;
+    technique: DeductionTechnique;
+    // 根拠となった数字マス（全体の地雷数による推論では空）
+    sources: number[];
+}
+
+// ソルバーが把握しているマスの状態（開いたマスは SAFE）
+const UNKNOWN = 0;
+const SAFE = 1;
+const MINE = 2;
+type Settled = typeof SAFE | typeof MINE;
+
+/**
+ * 論理的な推論で盤面を解くソルバー。
+ * 開いた数字マスごとに「未確定の隣接マスの数」と「そこに残る地雷の数」を持ち、
+ * マスが開く・確定するたびに周りの数字だけを更新する（毎回盤面全体を数え直さない）。
+ * 深読みの仮定は確定させたマスを trail に積み、調べ終わったら巻き戻す（盤面は複製しない）。
+ */
 export class Solver {
     board: Board;
     topology: Topology;
-    knownMines: Set<number>;
-    knownSafe: Set<number>;
     isValidState: boolean;
     totalMines: number;
+    mode: SolverMode;
+    // 確定した順の推論ログ（ヒントの説明などに使う）
+    deductions: Deduction[];
+
+    private known: Int8Array;
+    private knownMineCount = 0;
+    // 開いておらず、まだ確定していないマスの数
+    private unknownCount: number;
+    private openedCount = 0;
+    // 制約として登録済みの数字マス（開いていて数字が 1 以上）
+    private isConstraint: Uint8Array;
+    // 数字マスごとの、未確定の隣接マスの数と、そこに残っている地雷の数
+    private hiddenAround: Int32Array;
+    private minesAround: Int32Array;
+    // 境界: 未確定の隣接マスが残っている数字マス
+    private frontier = new Set<number>();
+    // 前回の基本推論のあとで状態が変わった数字マス
+    private dirty = new Set<number>();
+    // 安全と確定したが、まだ開いていないマス
+    private pendingSafe: number[] = [];
+    // 深読みの仮定の下で確定させたマス（仮定中でなければ null）
+    private trail: number[] | null = null;
 
-    constructor(board: Board, totalMines: number) {
+    constructor(board: Board, totalMines: number, mode: SolverMode = 'STANDARD') {
         this.board = board;
         this.topology = board.topology;
-        this.knownMines = new Set();
-        this.knownSafe = new Set();
         this.isValidState = true;
         this.totalMines = totalMines;
+        this.mode = mode;
+        this.deductions = [];
+
+        const size = this.topology.size;
+        this.known = new Int8Array(size);
+        this.unknownCount = size;
+        this.isConstraint = new Uint8Array(size);
+        this.hiddenAround = new Int32Array(size);
+        this.minesAround = new Int32Array(size);
+        for (let i = 0; i < size; i++) {
+            if (board.status[i] === 'OPENED') this.markOpened(i);
+        }
+    }
+
+    // マスを開き、連鎖して開いたマスも含めて制約を更新する
+    private open(index: number) {
+        this.board.open(index, opened => this.markOpened(opened));
+    }
+
+    private markOpened(index: number) {
+        if (this.known[index] === UNKNOWN) this.settle(index, SAFE);
+        this.openedCount++;
+        const count = this.board.neighborMineCounts[index];
+        if (count <= 0) return;
+
+        let hidden = 0;
+        let mines = count;
+        for (const n of this.topology.getNeighbors(index)) {
+            if (this.known[n] === UNKNOWN) hidden++;
+            else if (this.known[n] === MINE) mines--;
+        }
+        this.isConstraint[index] = 1;
+        this.hiddenAround[index] = hidden;
+        this.minesAround[index] = mines;
+        if (hidden > 0) this.frontier.add(index);
+        this.dirty.add(index);
+        if (mines < 0 || mines > hidden) this.isValidState = false;
+    }
+
+    // マスを確定させ、周りの数字マスの制約を更新する
+    private settle(cell: number, value: Settled) {
+        this.known[cell] = value;
+        this.unknownCount--;
+        if (value === MINE) this.knownMineCount++;
+        this.trail?.push(cell);
+
+        for (const n of this.topology.getNeighbors(cell)) {
+            if (!this.isConstraint[n]) continue;
+            this.hiddenAround[n]--;
+            if (value === MINE) this.minesAround[n]--;
+            if (this.hiddenAround[n] === 0) this.frontier.delete(n);
+            this.dirty.add(n);
+            if (this.minesAround[n] < 0 || this.minesAround[n] > this.hiddenAround[n]) this.isValidState = false;
+        }
+    }
+
+    // settle の取り消し
+    private unsettle(cell: number) {
+        const value = this.known[cell];
+        this.known[cell] = UNKNOWN;
+        this.unknownCount++;
+        if (value === MINE) this.knownMineCount--;
+
+        for (const n of this.topology.getNeighbors(cell)) {
+            if (!this.isConstraint[n]) continue;
+            if (this.hiddenAround[n] === 0) this.frontier.add(n);
+            this.hiddenAround[n]++;
+            if (value === MINE) this.minesAround[n]++;
+        }
+    }
+
+    private record(cell: number, isMine: boolean, technique: DeductionTechnique, sources: number[]) {
+        this.settle(cell, isMine ? MINE : SAFE);
+        // 深読みの仮定の下での推論は記録しない
+        if (this.trail) return;
+        this.deductions.push({ cell, isMine, technique, sources });
+        if (!isMine) this.pendingSafe.push(cell);
     }
 
-    static fromSnapshot(original: Solver): Solver {
-        const newSolver = new Solver(original.board.clone(), original.totalMines);
-        newSolver.knownMines = new Set(original.knownMines);
-        newSolver.knownSafe = new Set(original.knownSafe);
-        return newSolver;
+    // 指定マスに隣接する、開いた数字マス
+    private numberedNeighbors(index: number): number[] {
+        return this.topology.getNeighbors(index).filter(n => this.isConstraint[n]);
     }
 
+    // 境界の数字マスに隣接する未確定マス
+    private frontierCells(): Set<number> {
+        const cells = new Set<number>();
+        for (const c of this.frontier) {
+            for (const n of this.topology.getNeighbors(c)) {
+                if (this.known[n] === UNKNOWN) cells.add(n);
+            }
+        }
+        return cells;
+    }
+
+    // 前回から変化した数字マスだけを調べる
     solveBasicStep(): boolean {
-        let changed = false;
-        const size = this.topology.width * this.topology.height;
+        const constraints = Array.from(this.dirty);
+        this.dirty.clear();
 
-        for (let i = 0; i < size; i++) {
-            if (this.board.status[i] === 'OPENED' && this.board.neighborMineCounts[i] > 0) {
-                const neighbors = this.topology.getNeighbors(i);
-                const hiddenNeighbors = neighbors.filter(n => 
-                    this.board.status[n] === 'HIDDEN' && 
-                    !this.knownSafe.has(n) && 
-                    !this.knownMines.has(n)
-                );
-                
-                const knownMinesCount = neighbors.filter(n => this.knownMines.has(n)).length;
-                if (knownMinesCount > this.board.neighborMineCounts[i]) { this.isValidState = false; return false; }
-                
-                const remainingMines = this.board.neighborMineCounts[i] - knownMinesCount;
-                if (remainingMines > hiddenNeighbors.length || remainingMines < 0) { this.isValidState = false; return false; }
-
-                if (remainingMines === hiddenNeighbors.length && remainingMines > 0) {
-                    for (const n of hiddenNeighbors) { if (!this.knownMines.has(n)) { this.knownMines.add(n); changed = true; } }
-                }
-                if (remainingMines === 0 && hiddenNeighbors.length > 0) {
-                    for (const n of hiddenNeighbors) { if (!this.knownSafe.has(n) && !this.knownMines.has(n)) { this.knownSafe.add(n); changed = true; } }
-                }
+        let changed = false;
+        for (const i of constraints) {
+            if (!this.isValidState) return false;
+            const hidden = this.hiddenAround[i];
+            const mines = this.minesAround[i];
+            if (hidden === 0 || (mines !== 0 && mines !== hidden)) continue;
+            for (const n of this.topology.getNeighbors(i)) {
+                if (this.known[n] !== UNKNOWN) continue;
+                this.record(n, mines > 0, 'BASIC', [i]);
+                changed = true;
             }
         }
-        return changed;
+        return changed && this.isValidState;
     }
 
     solveGlobalLogic(): boolean {
-        const size = this.topology.width * this.topology.height;
-        let unknownCells: number[] = [];
+        // 未確定のマスが残っていなくても、確定した地雷が多すぎれば矛盾
+        const minesLeft = this.totalMines - this.knownMineCount;
+        if (minesLeft < 0 || minesLeft > this.unknownCount) { this.isValidState = false; return false; }
+        if (this.unknownCount === 0 || (minesLeft !== 0 && minesLeft !== this.unknownCount)) return false;
+
+        const size = this.topology.size;
         for (let i = 0; i < size; i++) {
-            if (this.board.status[i] === 'HIDDEN' && !this.knownSafe.has(i) && !this.knownMines.has(i)) unknownCells.push(i);
+            if (this.known[i] === UNKNOWN) this.record(i, minesLeft > 0, 'GLOBAL', []);
         }
-        if (unknownCells.length === 0) return false;
+        return true;
+    }
 
-        const currentFoundMines = this.knownMines.size;
-        const minesLeft = this.totalMines - currentFoundMines;
+    /**
+     * 2つの数字マスの比較（1-2-1 のような定石）。
+     * 未確定の隣接マスが重なる数字の組ごとに、重なりに入る地雷数の範囲から
+     * 片方だけに隣接するマスの地雷数を絞り込み、すべて安全 / すべて地雷と分かれば確定させる。
+     * 盤面を複製しないので、深読みよりずっと軽い。
+     */
+    solveSubsetLogic(): boolean {
+        const constraints: { cell: number, vars: Set<number>, target: number }[] = [];
+        // 未確定マス → それに隣接する制約の番号
+        const constraintsOf = new Map<number, number[]>();
+        for (const i of this.frontier) {
+            const vars = this.topology.getNeighbors(i).filter(n => this.known[n] === UNKNOWN);
+            for (const v of vars) {
+                if (!constraintsOf.has(v)) constraintsOf.set(v, []);
+                constraintsOf.get(v)!.push(constraints.length);
+            }
+            constraints.push({ cell: i, vars: new Set(vars), target: this.minesAround[i] });
+        }
 
-        if (minesLeft < 0 || minesLeft > unknownCells.length) { this.isValidState = false; return false; }
+        let changed = false;
+        constraints.forEach((a, ai) => {
+            const partners = new Set<number>();
+            for (const v of a.vars) {
+                for (const bi of constraintsOf.get(v)!) if (bi > ai) partners.add(bi);
+            }
+            for (const bi of partners) {
+                if (!this.isValidState) return;
+                changed = this.compareConstraints(a, constraints[bi]) || changed;
+            }
+        });
+        return changed && this.isValidState;
+    }
 
-        if (minesLeft === unknownCells.length) {
-            for (const idx of unknownCells) this.knownMines.add(idx);
-            return true;
-        }
-        if (minesLeft === 0) {
-            for (const idx of unknownCells) this.knownSafe.add(idx);
-            return true;
+    // 重なりのある2つの制約から、片方だけに隣接するマスを確定させる
+    private compareConstraints(
+        a: { cell: number, vars: Set<number>, target: number },
+        b: { cell: number, vars: Set<number>, target: number }
+    ): boolean {
+        const onlyA = [...a.vars].filter(v => !b.vars.has(v));
+        const onlyB = [...b.vars].filter(v => !a.vars.has(v));
+        const shared = a.vars.size - onlyA.length;
+
+        // 重なりに入る地雷数の範囲
+        const minShared = Math.max(0, a.target - onlyA.length, b.target - onlyB.length);
+        const maxShared = Math.min(shared, a.target, b.target);
+        if (minShared > maxShared) { this.isValidState = false; return false; }
+
+        let changed = false;
+        for (const [only, target] of [[onlyA, a.target], [onlyB, b.target]] as const) {
+            if (only.length === 0) continue;
+            const isMine = target - maxShared === only.length;
+            if (target - minShared !== 0 && !isMine) continue;
+            for (const cell of only) {
+                if (this.known[cell] !== UNKNOWN) continue;
+                this.record(cell, isMine, 'SUBSET', [a.cell, b.cell]);
+                changed = true;
+            }
         }
-        return false;
+        return changed;
     }
 
     solveDeepLogic(): boolean {
         let changed = false;
-        const size = this.topology.width * this.topology.height;
-        const frontierCells = new Set<number>();
-        for (let i = 0; i < size; i++) {
-            if (this.board.status[i] === 'OPENED' && this.board.neighborMineCounts[i] > 0) {
-                const neighbors = this.topology.getNeighbors(i);
-                for (const n of neighbors) {
-                    if (this.board.status[n] === 'HIDDEN' && !this.knownSafe.has(n) && !this.knownMines.has(n)) frontierCells.add(n);
-                }
+        for (const cell of this.frontierCells()) {
+            if (!this.isValidState) break;
+            if (this.known[cell] !== UNKNOWN) continue;
+            if (this.contradicts(cell, MINE)) {
+                this.record(cell, false, 'DEEP', this.numberedNeighbors(cell));
+                changed = true;
+            } else if (this.contradicts(cell, SAFE)) {
+                this.record(cell, true, 'DEEP', this.numberedNeighbors(cell));
+                changed = true;
             }
         }
+        return changed;
+    }
 
-        for (const targetIdx of frontierCells) {
-            const simMine = Solver.fromSnapshot(this);
-            simMine.knownMines.add(targetIdx);
-            let subChanged = true;
-            while(subChanged && simMine.isValidState) {
-                subChanged = simMine.solveBasicStep();
-                if(subChanged) subChanged = simMine.solveGlobalLogic();
-            }
-            if (!simMine.isValidState) {
-                if (!this.knownSafe.has(targetIdx)) { this.knownSafe.add(targetIdx); changed = true; continue; }
+    // cell を value と仮定して基本推論・全体数の推論を進め、矛盾するかを調べる（調べ終わったら巻き戻す）
+    private contradicts(cell: number, value: Settled): boolean {
+        const dirty = this.dirty;
+        const trail: number[] = [];
+        this.dirty = new Set();
+        this.trail = trail;
+
+        this.settle(cell, value);
+        while (this.isValidState && (this.solveBasicStep() || this.solveGlobalLogic()));
+        const contradiction = !this.isValidState;
+
+        for (let i = trail.length - 1; i >= 0; i--) this.unsettle(trail[i]);
+        this.trail = null;
+        this.dirty = dirty;
+        this.isValidState = true;
+        return contradiction;
+    }
+
+    /**
+     * 厳密解法: 境界のマスを独立な連結成分に分け、各成分の地雷配置をすべて列挙する。
+     * 残り地雷数で重み付けし、未確定の各マスが地雷である確率を求める。
+     * 戻り値は全マス分の配列で、開いたマスは null。矛盾または列挙上限超過なら null。
+     */
+    computeMineProbabilities(): (number | null)[] | null {
+        const size = this.topology.size;
+        if (!this.isValidState) return null;
+
+        // 境界の数字マスごとの制約
+        const constraints: { vars: number[], target: number }[] = [];
+        for (const i of this.frontier) {
+            const vars = this.topology.getNeighbors(i).filter(n => this.known[n] === UNKNOWN);
+            constraints.push({ vars, target: this.minesAround[i] });
+        }
+
+        // 制約を共有するマス同士を Union-Find でまとめる
+        const parent = new Map<number, number>();
+        const find = (x: number): number => {
+            let root = x;
+            while (parent.get(root) !== root) root = parent.get(root)!;
+            parent.set(x, root);
+            return root;
+        };
+        for (const c of constraints) {
+            for (const v of c.vars) if (!parent.has(v)) parent.set(v, v);
+            for (let j = 1; j < c.vars.length; j++) {
+                const a = find(c.vars[0]);
+                const b = find(c.vars[j]);
+                if (a !== b) parent.set(b, a);
             }
+        }
 
-            const simSafe = Solver.fromSnapshot(this);
-            simSafe.knownSafe.add(targetIdx);
-            subChanged = true;
-            while(subChanged && simSafe.isValidState) {
-                subChanged = simSafe.solveBasicStep();
-                if(subChanged) subChanged = simSafe.solveGlobalLogic();
+        const componentConstraints = new Map<number, { vars: number[], target: number }[]>();
+        for (const c of constraints) {
+            const root = find(c.vars[0]);
+            if (!componentConstraints.has(root)) componentConstraints.set(root, []);
+            componentConstraints.get(root)!.push(c);
+        }
+
+        const minesLeft = this.totalMines - this.knownMineCount;
+        if (minesLeft < 0) { this.isValidState = false; return null; }
+
+        const components: ComponentSolutions[] = [];
+        for (const comps of componentConstraints.values()) {
+            // 枝刈りが効くよう、隣接する制約の順にマスを並べる
+            const order: number[] = [];
+            const seen = new Set<number>();
+            for (const c of comps) {
+                for (const v of c.vars) {
+                    if (!seen.has(v)) { seen.add(v); order.push(v); }
+                }
             }
-            if (!simSafe.isValidState) {
-                if (!this.knownMines.has(targetIdx)) { this.knownMines.add(targetIdx); changed = true; }
+            const local = new Map(order.map((v, j) => [v, j]));
+            const localConstraints = comps.map(c => ({ vars: c.vars.map(v => local.get(v)!), target: c.target }));
+            const result = enumerateComponent(order, localConstraints, minesLeft);
+            if (!result) return null;
+            if (result.counts.every(c => c === 0)) { this.isValidState = false; return null; }
+            components.push(result);
+        }
+
+        // 境界に接していない未確定マス
+        const floating = this.unknownCount - parent.size;
+
+        // 二項係数は対数で計算し、最大値で正規化してから戻す
+        const logFactorial = [0];
+        for (let i = 1; i <= floating; i++) logFactorial[i] = logFactorial[i - 1] + Math.log(i);
+        const logBinomial = (k: number) =>
+            (k < 0 || k > floating) ? -Infinity : logFactorial[floating] - logFactorial[k] - logFactorial[floating - k];
+
+        const allDist = components.reduce((acc, c) => convolve(acc, c.counts), [1]);
+        let offset = -Infinity;
+        allDist.forEach((w, k) => { if (w > 0) offset = Math.max(offset, logBinomial(minesLeft - k)); });
+        if (offset === -Infinity) { this.isValidState = false; return null; }
+        const binomial = (k: number) => Math.exp(logBinomial(minesLeft - k) - offset);
+
+        const total = allDist.reduce((sum, w, k) => sum + w * binomial(k), 0);
+        if (total === 0) { this.isValidState = false; return null; }
+
+        const probabilities: (number | null)[] = new Array(size).fill(null);
+        for (let i = 0; i < size; i++) {
+            if (this.board.status[i] === 'OPENED') continue;
+            if (this.known[i] === MINE) probabilities[i] = 1;
+            else if (this.known[i] === SAFE) probabilities[i] = 0;
+        }
+
+        // 各成分: 自分以外の成分の分布と組み合わせて、地雷数 k ごとの重みを求める
+        components.forEach((comp, ci) => {
+            const others = components.reduce((acc, c, cj) => cj === ci ? acc : convolve(acc, c.counts), [1]);
+            const weights = comp.counts.map((_, k) =>
+                others.reduce((sum, w, rest) => sum + w * binomial(k + rest), 0)
+            );
+            comp.cells.forEach((cell, j) => {
+                let mineWeight = 0;
+                let safeWeight = 0;
+                weights.forEach((w, k) => {
+                    mineWeight += comp.mineCounts[j][k] * w;
+                    safeWeight += (comp.counts[k] - comp.mineCounts[j][k]) * w;
+                });
+                probabilities[cell] = mineWeight === 0 ? 0 : safeWeight === 0 ? 1 : mineWeight / total;
+            });
+        });
+
+        // 境界外のマスはどれも同じ確率
+        if (floating > 0) {
+            let mineWeight = 0;
+            let safeWeight = 0;
+            allDist.forEach((w, k) => {
+                const weight = w * binomial(k);
+                mineWeight += weight * (minesLeft - k) / floating;
+                safeWeight += weight * (floating - (minesLeft - k)) / floating;
+            });
+            const p = mineWeight === 0 ? 0 : safeWeight === 0 ? 1 : mineWeight / total;
+            for (let i = 0; i < size; i++) {
+                if (this.known[i] === UNKNOWN && !parent.has(i)) probabilities[i] = p;
             }
         }
+
+        return probabilities;
+    }
+
+    // 厳密解法で確率 0 / 1 と分かったマスを確定させる
+    solveExactLogic(): boolean {
+        const probabilities = this.computeMineProbabilities();
+        if (!probabilities) return false;
+
+        let changed = false;
+        const size = this.topology.size;
+        for (let i = 0; i < size; i++) {
+            if (this.known[i] !== UNKNOWN) continue;
+            if (probabilities[i] === 0) { this.record(i, false, 'EXACT', this.numberedNeighbors(i)); changed = true; }
+            else if (probabilities[i] === 1) { this.record(i, true, 'EXACT', this.numberedNeighbors(i)); changed = true; }
+        }
         return changed;
     }
 
+    // 軽い推論から順に試し、どれかで新しく確定したマスがあれば true（マスは開かない）
+    step(): boolean {
+        return this.solveBasicStep()
+            || this.solveGlobalLogic()
+            || this.solveSubsetLogic()
+            || this.solveDeepLogic()
+            || (this.mode === 'EXACT' && this.solveExactLogic());
+    }
+
     checkSolvability(startIndex: number): boolean {
-        this.board.open(startIndex);
-        let stuck = false;
-        while (!stuck) {
-            let changed = this.solveBasicStep();
-            if (!changed) changed = this.solveGlobalLogic();
-            if (!changed) changed = this.solveDeepLogic();
+        this.open(startIndex);
+        const safeCells = this.topology.size - this.totalMines;
+        // 安全マスを開き切ったら終わり（残りの地雷を確定させる推論は難易度に数えない）
+        while (this.isValidState && this.openedCount < safeCells) {
+            const changed = this.step();
 
             let openChanged = false;
-            const safeList = Array.from(this.knownSafe);
-            for (const safeIdx of safeList) {
+            const pending = this.pendingSafe;
+            this.pendingSafe = [];
+            for (const safeIdx of pending) {
                 if (this.board.status[safeIdx] === 'HIDDEN') {
-                    this.board.open(safeIdx);
+                    this.open(safeIdx);
                     openChanged = true;
                 }
             }
-            if (!changed && !openChanged) stuck = true;
+            if (!changed && !openChanged) break;
         }
 
-        const size = this.topology.width * this.topology.height;
+        const size = this.topology.size;
         for (let i = 0; i < size; i++) {
             if (!this.board.mines[i] && this.board.status[i] !== 'OPENED') return false;
         }
@@ -370,40 +1000,381 @@ export class Solver {
     }
 }
 
+// 難易度の範囲を判定できるソルバーの方式（厳密解法が必要な範囲では EXACT）
+function solverModeFor(config: GameConfig, requested: SolverMode = 'STANDARD'): SolverMode {
+    return bandNeedsExact(getDifficultyBand(config.difficulty ?? 'ANY')) ? 'EXACT' : requested;
+}
+
+/**
+ * 生成済みの盤面を最初のクリックから解き直し、使った推論から難易度を求める。
+ * 盤面自体は変更しない。論理的に解けなければ null。
+ */
+export function gradeBoard(board: Board, config: GameConfig, startIndex: number, mode?: SolverMode): DifficultyGrade | null {
+    const fresh = new Board(board.topology);
+    fresh.setMines(board.mines);
+    const solver = new Solver(fresh, config.mines, solverModeFor(config, mode));
+    return solver.checkSolvability(startIndex) ? gradeDeductions(solver.deductions) : null;
+}
+
+/**
+ * 今開いているマスから解き直して（旗は使わない）、使った推論から難易度を求める。
+ * 読み込んだ盤面や手で作った盤面の確認用。開いた安全マスがない・地雷が開いている・論理的に解けなければ null。
+ */
+export function gradePosition(board: Board, config: GameConfig, mode?: SolverMode): DifficultyGrade | null {
+    const start = board.status.findIndex((s, i) => s === 'OPENED' && !board.mines[i]);
+    if (start < 0 || board.hasExploded()) return null;
+    const fresh = new Board(board.topology);
+    fresh.setMines(board.mines);
+    fresh.status = board.status.map(s => s === 'OPENED' ? 'OPENED' : 'HIDDEN');
+    const solver = new Solver(fresh, config.mines, solverModeFor(config, mode));
+    return solver.checkSolvability(start) ? gradeDeductions(solver.deductions) : null;
+}
+
+export interface GenerateOptions {
+    // 同じ (seed, config, startIndex) からは必ず同じ盤面が生成される
+    seed: number;
+    solverMode?: SolverMode;
+    // 試行回数の上限（省略時は MAX_RETRY）
+    maxAttempts?: number;
+    // 中断されると AbortError で reject する
+    signal?: AbortSignal;
+}
+
+export interface GenerationProgress {
+    attempts: number;
+    maxAttempts: number;
+    // これまでの試行で、ソルバーが開けた安全マスの割合の最大値 (0～1)
+    bestSolveRatio: number;
+    // 解けたが難易度の範囲から外れて捨てた盤面の数
+    outOfBand: number;
+}
+
 export async function generateBoardAsync(
     config: GameConfig, 
     startIndex: number, 
-    onProgress: (count: number) => void
+    onProgress: (progress: GenerationProgress) => void,
+    options: GenerateOptions
 ): Promise<Board | null> {
     
-    const topology = new Topology(config.width, config.height, config.topologyType);
-    const MAX_RETRY = 2000;
+    // 生成できない設定は試すまでもなく失敗
+    if (validateConfig(config).errors.length > 0) return null;
+
+    const topology = createTopology(config);
+    const random = createRandom(options.seed);
+    const band = getDifficultyBand(config.difficulty ?? 'ANY');
+    const solverMode = solverModeFor(config, options.solverMode);
+    const maxAttempts = options.maxAttempts ?? MAX_RETRY;
     const TIME_SLICE = 15;
+    const safeCells = cellCount(config) - config.mines;
 
     let attempts = 0;
+    let bestSolveRatio = 0;
+    let outOfBand = 0;
     let lastYield = Date.now();
 
-    while (attempts < MAX_RETRY) {
+    options.signal?.throwIfAborted();
+
+    while (attempts < maxAttempts) {
         attempts++;
         
         if (Date.now() - lastYield > TIME_SLICE) {
-            onProgress(attempts);
+            onProgress({ attempts, maxAttempts, bestSolveRatio, outOfBand });
             await new Promise(resolve => setTimeout(resolve, 0));
+            options.signal?.throwIfAborted();
             lastYield = Date.now();
         }
 
         const board = new Board(topology);
-        board.placeMines(config.mines, startIndex);
+        board.placeMines(config.mines, startIndex, random);
 
-        const solver = new Solver(board, config.mines);
+        const solver = new Solver(board, config.mines, solverMode);
         
         if (solver.checkSolvability(startIndex)) {
+            if (!matchesBand(gradeDeductions(solver.deductions), band)) {
+                outOfBand++;
+                continue;
+            }
             for(let i=0; i<board.status.length; i++) {
                 board.status[i] = 'HIDDEN';
             }
-            board.open(startIndex);
+            // 最初のクリックも履歴に残す
+            board.perform('OPEN', startIndex);
+            onProgress({ attempts, maxAttempts, bestSolveRatio: 1, outOfBand });
             return board;
         }
+
+        const opened = board.status.filter(s => s === 'OPENED').length;
+        bestSolveRatio = Math.max(bestSolveRatio, safeCells > 0 ? opened / safeCells : 1);
     }
     return null;
-}
\ No newline at end of file
+}
+
+// --- 盤面ファイル ---
+
+/**
+ * 盤面ファイル: 設定・地雷配置・マスの状態を書き出し、手で作った盤面や外部で生成した盤面を読み込む。
+ * JSON 形式と、1マス1文字で並べたテキスト形式がある（書式は README を参照）。
+ * どちらも生成を経ずにそのまま遊べる盤面になる。
+ */
+export const BOARD_FORMAT_VERSION = 1;
+
+// テキスト形式の1行目
+export const BOARD_TEXT_HEADER = `topological-minesweeper board v${BOARD_FORMAT_VERSION}`;
+
+export interface BoardFile {
+    version: typeof BOARD_FORMAT_VERSION;
+    config: GameConfig;
+    // 地雷・開いたマス・旗のあるマスの番号
+    mines: number[];
+    opened: number[];
+    flagged: number[];
+}
+
+export interface LoadedBoard {
+    config: GameConfig;
+    board: Board;
+}
+
+// 読み込めなかった理由（手で書いた盤面を直せるよう、行番号やマスの座標を含める）
+export type BoardParseResult = LoadedBoard | { error: string };
+
+function cellsWhere(board: Board, test: (i: number) => boolean): number[] {
+    const cells: number[] = [];
+    for (let i = 0; i < board.topology.size; i++) {
+        if (test(i)) cells.push(i);
+    }
+    return cells;
+}
+
+export function exportBoard(board: Board, config: GameConfig): BoardFile {
+    return {
+        version: BOARD_FORMAT_VERSION,
+        config: { ...config, mines: board.mines.filter(Boolean).length },
+        mines: cellsWhere(board, i => board.mines[i]),
+        opened: cellsWhere(board, i => board.status[i] === 'OPENED'),
+        flagged: cellsWhere(board, i => board.status[i] === 'FLAGGED'),
+    };
+}
+
+export function serializeBoardJson(board: Board, config: GameConfig): string {
+    return JSON.stringify(exportBoard(board, config));
+}
+
+// テキスト形式でのマス1つ分の文字
+function cellChar(board: Board, index: number): string {
+    const mine = board.mines[index];
+    switch (board.status[index]) {
+        case 'HIDDEN': return mine ? '*' : '.';
+        case 'FLAGGED': return mine ? 'F' : 'f';
+        case 'OPENED': {
+            if (mine) return 'X';
+            const count = board.neighborMineCounts[index];
+            return count < 10 ? String(count) : '+';
+        }
+    }
+}
+
+/**
+ * テキスト形式: 1行目が版、続いて「キー: 値」の設定、空行のあとにマスを1行ずつ並べる。
+ * 六角形の格子は奇数行を半マス右にずらして書く。複数の面からなる曲面は面ごとに [面の名前] の行から始める。
+ * 読み込むときはマスの間の空白と # で始まる行を無視する。
+ */
+export function serializeBoardText(board: Board, config: GameConfig): string {
+    const { width, height, definition, lattice } = board.topology;
+    const lines = [BOARD_TEXT_HEADER, `topology: ${config.topologyType}`, `size: ${width}x${height}`];
+    if (config.lattice && config.lattice !== 'SQUARE') lines.push(`lattice: ${config.lattice}`);
+    if (config.neighborhood && config.neighborhood !== 'MOORE') lines.push(`neighborhood: ${config.neighborhood}`);
+    if (config.neighborhood === 'CUSTOM' && config.customOffsets) lines.push(`offsets: ${formatOffsets(config.customOffsets)}`);
+    if (config.difficulty && config.difficulty !== 'ANY') lines.push(`difficulty: ${config.difficulty}`);
+
+    const faces = definition.patches?.patches.map(p => p.label) ?? [null];
+    faces.forEach((label, patch) => {
+        lines.push('');
+        if (label !== null) lines.push(`[${label}]`);
+        for (let y = 0; y < height; y++) {
+            const row: string[] = [];
+            for (let x = 0; x < width; x++) row.push(cellChar(board, patch * width * height + y * width + x));
+            lines.push((lattice.type === 'HEX' && y % 2 === 1 ? ' ' : '') + row.join(' '));
+        }
+    });
+    return lines.join('\n') + '\n';
+}
+
+// min 以上 max 以下の整数か（読み込んだ JSON の検証に使う）
+export function isInteger(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * JSON.parse 済みの設定の形を確かめる（リプレイ・盤面ファイルの読み込みで共通）。
+ * 値として遊べるかどうかは topologyErrors / validateConfig で確かめる。
+ */
+export function parseGameConfig(value: unknown): GameConfig | null {
+    if (typeof value !== 'object' || value === null) return null;
+    const config = value as Record<string, unknown>;
+    if (!isInteger(config.width, 1, Infinity) || !isInteger(config.height, 1, Infinity)) return null;
+    if (!isInteger(config.mines, 0, Infinity) || typeof config.topologyType !== 'string') return null;
+    const gameConfig: GameConfig = {
+        width: config.width, height: config.height, mines: config.mines, topologyType: config.topologyType
+    };
+    // 格子の指定がない（正方形だけだった頃の）設定もそのまま読める
+    if (config.lattice !== undefined) {
+        if (!isLatticeType(config.lattice)) return null;
+        gameConfig.lattice = config.lattice;
+    }
+    // 隣接ルールも同様（ずれの中身は topologyErrors が確かめる）
+    if (config.neighborhood !== undefined) {
+        if (!isNeighborhoodType(config.neighborhood)) return null;
+        gameConfig.neighborhood = config.neighborhood;
+    }
+    if (config.customOffsets !== undefined) {
+        gameConfig.customOffsets = config.customOffsets as Point[];
+    }
+    if (config.difficulty !== undefined) {
+        if (!isDifficultyBandType(config.difficulty)) return null;
+        gameConfig.difficulty = config.difficulty;
+    }
+    return gameConfig;
+}
+
+/**
+ * 地雷配置と開いたマス・旗から盤面を組み立てる。
+ * 旗を立ててから順に開く操作として履歴に残すので、リプレイや途中保存でも同じ局面から始まる。
+ * 0 のマスの隣が開いていないと連鎖で開いてしまうため、その場合はエラー。
+ * checkNumbers: 地雷を置いた直後（マスを開く前）の盤面を確かめ、問題があればその説明を返す
+ */
+function buildBoard(
+    config: GameConfig, mines: boolean[], opened: number[], flagged: number[],
+    checkNumbers?: (board: Board) => string | null
+): BoardParseResult {
+    const board = new Board(createTopology(config));
+    board.setMines(mines);
+    const error = checkNumbers?.(board);
+    if (error) return { error };
+    const timestamp = Date.now();
+    for (const i of flagged) board.perform('FLAG', i, timestamp);
+    for (const i of opened) board.perform('OPEN', i, timestamp);
+
+    const expected = new Set(opened);
+    const extra = cellsWhere(board, i => board.status[i] === 'OPENED' && !expected.has(i));
+    if (extra.length > 0) {
+        return { error: `Cell ${describeCell(board, extra[0])} must be open: it touches an open 0.` };
+    }
+    return { config, board };
+}
+
+function parseBoardJson(text: string): BoardParseResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { error: 'Not valid JSON.' };
+    }
+    if (typeof data !== 'object' || data === null) return { error: 'Not a board file.' };
+    const file = data as Record<string, unknown>;
+    if (file.version !== BOARD_FORMAT_VERSION) return { error: `Unsupported board file version: ${String(file.version)}` };
+
+    const config = parseGameConfig(file.config);
+    if (!config) return { error: 'Invalid board config.' };
+    const errors = topologyErrors(config);
+    if (errors.length > 0) return { error: errors[0] };
+
+    const size = cellCount(config);
+    const lists = [file.mines, file.opened, file.flagged];
+    if (!lists.every(list => Array.isArray(list) && list.every(i => isInteger(i, 0, size - 1)))) {
+        return { error: `mines, opened and flagged must be lists of cell indices below ${size}.` };
+    }
+    const [mines, opened, flagged] = lists as number[][];
+    const mineMask = new Array(size).fill(false);
+    for (const i of mines) mineMask[i] = true;
+    const listed = mineMask.filter(Boolean).length;
+    if (listed !== config.mines) return { error: `config.mines is ${config.mines}, but the mine list has ${listed} cells.` };
+    if (flagged.some(i => opened.includes(i))) return { error: 'A cell cannot be both open and flagged.' };
+    return buildBoard(config, mineMask, opened, flagged);
+}
+
+function parseBoardText(text: string): BoardParseResult {
+    // # で始まる行はコメント（行番号は元のまま数える）
+    const lines = text.split(/\r?\n/)
+        .map((content, i) => ({ content, line: i + 1 }))
+        .filter(({ content }) => !content.trimStart().startsWith('#'));
+    while (lines.length > 0 && lines[0].content.trim() === '') lines.shift();
+    if (lines.length === 0 || lines[0].content.trim() !== BOARD_TEXT_HEADER) {
+        return { error: `The first line must be "${BOARD_TEXT_HEADER}".` };
+    }
+
+    // 設定（空行まで）
+    const fields = new Map<string, string>();
+    let n = 1;
+    for (; n < lines.length && lines[n].content.trim() !== ''; n++) {
+        const match = /^\s*([a-z]+)\s*:\s*(.*?)\s*$/.exec(lines[n].content);
+        if (!match) return { error: `Line ${lines[n].line}: expected "key: value".` };
+        fields.set(match[1], match[2]);
+    }
+    const size = /^(\d+)\s*[x×]\s*(\d+)$/.exec(fields.get('size') ?? '');
+    if (!size) return { error: 'Missing "size: WIDTHxHEIGHT".' };
+    const config: GameConfig = {
+        width: Number(size[1]), height: Number(size[2]), mines: 0, topologyType: fields.get('topology') ?? 'SQUARE'
+    };
+    const lattice = fields.get('lattice');
+    if (lattice !== undefined) {
+        if (!isLatticeType(lattice)) return { error: `Unknown lattice: ${lattice}` };
+        config.lattice = lattice;
+    }
+    const neighborhood = fields.get('neighborhood');
+    if (neighborhood !== undefined) {
+        if (!isNeighborhoodType(neighborhood)) return { error: `Unknown neighbourhood: ${neighborhood}` };
+        config.neighborhood = neighborhood;
+    }
+    const offsets = fields.get('offsets');
+    if (offsets !== undefined) {
+        const parsed = parseOffsets(offsets);
+        if (parsed === null) return { error: 'offsets must look like "dx,dy; dx,dy".' };
+        config.customOffsets = parsed;
+    }
+    const difficulty = fields.get('difficulty');
+    if (difficulty !== undefined) {
+        if (!isDifficultyBandType(difficulty)) return { error: `Unknown difficulty band: ${difficulty}` };
+        config.difficulty = difficulty;
+    }
+    const errors = topologyErrors(config);
+    if (errors.length > 0) return { error: errors[0] };
+
+    // マス（空白は無視し、面の名前の行は読み飛ばす）
+    const cells: { char: string, line: number }[] = [];
+    for (const { content, line } of lines.slice(n + 1)) {
+        const row = content.replace(/\s+/g, '');
+        if (row === '' || /^\[.*\]$/.test(row)) continue;
+        if (row.length !== config.width) return { error: `Line ${line}: expected ${config.width} cells, found ${row.length}.` };
+        for (const char of row) cells.push({ char, line });
+    }
+    const total = cellCount(config);
+    if (cells.length !== total) return { error: `Expected ${total / config.width} rows of cells, found ${cells.length / config.width}.` };
+
+    const bad = cells.find(c => !/^[.*FfX+0-9]$/.test(c.char));
+    if (bad) return { error: `Line ${bad.line}: unknown cell "${bad.char}" (use . * F f X + or a digit).` };
+    const mines = cells.map(c => c.char === '*' || c.char === 'F' || c.char === 'X');
+    const opened = cells.flatMap((c, i) => /^[X+0-9]$/.test(c.char) ? [i] : []);
+    const flagged = cells.flatMap((c, i) => c.char === 'F' || c.char === 'f' ? [i] : []);
+    config.mines = mines.filter(Boolean).length;
+
+    // 書かれた数字が地雷配置と合っているか
+    return buildBoard(config, mines, opened, flagged, board => {
+        for (const i of opened) {
+            const { char, line } = cells[i];
+            const count = board.neighborMineCounts[i];
+            if (/^[0-9]$/.test(char) && Number(char) !== count) {
+                return `Line ${line}: cell ${describeCell(board, i)} shows ${char}, but it touches ${count} mine${count === 1 ? '' : 's'}.`;
+            }
+            if (char === '+' && count < 10) {
+                return `Line ${line}: cell ${describeCell(board, i)} is marked +, but its number is ${count}.`;
+            }
+        }
+        return null;
+    });
+}
+
+// JSON 形式・テキスト形式のどちらも読める（最初の文字が { なら JSON）
+export function parseBoard(text: string): BoardParseResult {
+    return text.trimStart().startsWith('{') ? parseBoardJson(text) : parseBoardText(text);
+}
@@ -0,0 +1,39 @@
+/**
+ * src/logic/GeneratorWorker.ts
+ * 盤面生成ワーカー: generateBoardAsync をメインスレッドの外で実行し、進捗と結果を送り返す
+ */
+
+import { generateBoardAsync, type GameConfig, type GenerationProgress, type SolverMode } from './GameCore.ts';
+import { registerTopology, type TopologyDefinition } from './TopologyRegistry.ts';
+
+export interface GeneratorRequest {
+    config: GameConfig;
+    // ワーカー側のレジストリには組み込みしかないので、定義ごと渡して登録する
+    definition: TopologyDefinition;
+    startIndex: number;
+    seed: number;
+    solverMode: SolverMode;
+}
+
+export type GeneratorResponse =
+    | { type: 'progress', progress: GenerationProgress }
+    | { type: 'done', mines: boolean[] | null }
+    | { type: 'error', message: string };
+
+self.onmessage = async (e: MessageEvent<GeneratorRequest>) => {
+    const { config, definition, startIndex, seed, solverMode } = e.data;
+    const post = (response: GeneratorResponse) => self.postMessage(response);
+
+    try {
+        registerTopology(definition);
+        const board = await generateBoardAsync(
+            config,
+            startIndex,
+            (progress) => post({ type: 'progress', progress }),
+            { seed, solverMode }
+        );
+        post({ type: 'done', mines: board ? board.mines : null });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
@@ -0,0 +1,164 @@
+/**
+ * src/logic/Hint.ts
+ * ヒント: 現在の盤面でソルバーを動かし、次に確定できるマスとその根拠を説明する
+ */
+
+import { Board, Solver, describeCell, type Deduction, type DeductionTechnique, type SolverMode } from './GameCore.ts';
+import { toPatchCell, type PatchLayout } from './PatchSurface.ts';
+
+export interface Hint {
+    cell: number;
+    isMine: boolean;
+    technique: DeductionTechnique;
+    // 根拠となった数字マス
+    sources: number[];
+    // 根拠のマスとの隣接が貼り合わせの辺をまたいでいるか
+    crossesSeam: boolean;
+    message: string;
+}
+
+/**
+ * source と target の隣接がどの辺をまたいでいるかを調べる。
+ * 盤面内で直接隣り合う経路があれば、またいでいないとみなす。
+ */
+function crossedEdges(board: Board, source: number, target: number): { horizontal: boolean, vertical: boolean } {
+    const topology = board.topology;
+    const { x, y } = topology.toCoord(source);
+    let best: { horizontal: boolean, vertical: boolean } | null = null;
+
+    for (const [dx, dy] of topology.neighborOffsets(x, y)) {
+        const tx = x + dx;
+        const ty = y + dy;
+        const { nx, ny, valid } = topology.mapCoordinate(tx, ty);
+        if (!valid || topology.toIndex(nx, ny) !== target) continue;
+
+        const crossing = {
+            horizontal: tx < 0 || tx >= topology.width,
+            vertical: ty < 0 || ty >= topology.height,
+        };
+        if (!crossing.horizontal && !crossing.vertical) return crossing;
+        best = best ?? crossing;
+    }
+    return best ?? { horizontal: false, vertical: false };
+}
+
+// 根拠のマスとの隣接が別の面にまたがっている場合の説明文
+function describePatchSeams(board: Board, layout: PatchLayout, deduction: Deduction): string {
+    const { width, height } = board.topology;
+    const patchOf = (index: number) => toPatchCell(width, height, index).patch;
+    const target = patchOf(deduction.cell);
+    const others = new Set(deduction.sources.map(patchOf).filter(patch => patch !== target));
+    if (others.size === 0) return '';
+    const labels = [target, ...others].map(patch => layout.patches[patch].label);
+    return ` across the seam${others.size > 1 ? 's' : ''} between faces ${labels.join(', ')} of the ${board.topology.type} surface`;
+}
+
+// 「ひねられた左右の継ぎ目をまたいで」のような説明文
+function describeSeams(board: Board, deduction: Deduction): string {
+    const layout = board.topology.definition.patches;
+    if (layout) return describePatchSeams(board, layout, deduction);
+
+    let horizontal = false;
+    let vertical = false;
+    for (const source of deduction.sources) {
+        const crossing = crossedEdges(board, source, deduction.cell);
+        horizontal ||= crossing.horizontal;
+        vertical ||= crossing.vertical;
+    }
+
+    const edges = board.topology.definition.edges;
+    const seams: string[] = [];
+    if (horizontal) seams.push(`${edges.left === 'TWISTED' ? 'twisted ' : ''}left–right`);
+    if (vertical) seams.push(`${edges.top === 'TWISTED' ? 'twisted ' : ''}top–bottom`);
+    if (seams.length === 0) return '';
+    return ` across the ${seams.join(' and ')} seam${seams.length > 1 ? 's' : ''} of the ${board.topology.type} board`;
+}
+
+function buildHint(board: Board, totalMines: number, deduction: Deduction): Hint {
+    const { cell, isMine, technique, sources } = deduction;
+    const target = describeCell(board, cell);
+    const seam = describeSeams(board, deduction);
+    const sourceList = sources.map(s => `the ${board.neighborMineCounts[s]} at ${describeCell(board, s)}`).join(', ');
+    const verdict = isMine ? 'a mine' : 'safe';
+
+    let message: string;
+    switch (technique) {
+        case 'BASIC':
+            message = isMine
+                ? `${capitalize(sourceList)} has only enough hidden neighbours left for its mines, so ${target} must be a mine${seam}.`
+                : `${capitalize(sourceList)} already has all its mines accounted for, so ${target} is safe${seam}.`;
+            break;
+        case 'GLOBAL':
+            message = isMine
+                ? `Global mine count: the hidden cells left exactly match the mines left out of ${totalMines}, so ${target} must be a mine.`
+                : `Global mine count: all ${totalMines} mines are accounted for, so ${target} is safe.`;
+            break;
+        case 'SUBSET':
+            message = `Comparing ${sourceList}${seam}: whatever their shared hidden neighbours hold, the rest of their neighbours must make ${target} ${verdict}.`;
+            break;
+        case 'DEEP':
+            message = `Lookahead: assuming ${target} is ${isMine ? 'safe' : 'a mine'} leads to a contradiction with ${sourceList}${seam}, so it must be ${verdict}.`;
+            break;
+        case 'EXACT':
+            message = `Exhaustive check: every mine arrangement consistent with ${sourceList}${seam} and the remaining mine count makes ${target} ${verdict}.`;
+            break;
+    }
+
+    // 間違った旗が立っている場合はそれも伝える
+    if (!isMine && board.status[cell] === 'FLAGGED') {
+        message = `Your flag on ${target} is wrong. ${message}`;
+    }
+
+    return { cell, isMine, technique, sources, crossesSeam: seam !== '', message };
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// プレイヤーの旗は間違っている可能性があるので、旗を外した盤面で推論する
+function createSolver(board: Board, totalMines: number, mode: SolverMode = 'EXACT'): Solver {
+    const sim = board.clone();
+    for (let i = 0; i < sim.status.length; i++) {
+        if (sim.status[i] === 'FLAGGED') sim.status[i] = 'HIDDEN';
+    }
+    return new Solver(sim, totalMines, mode);
+}
+
+/**
+ * 現在の盤面から次に確定できるマスを探す。
+ * プレイヤーの旗は間違っている可能性があるので、推論では未確定として扱う。
+ * 画面の操作中に呼ばれるので、全探索（EXACT）は軽い推論だけでは見つからなかったときに限って使う。
+ * 論理的に確定できるマスがなければ null。
+ */
+export function findHint(board: Board, totalMines: number): Hint | null {
+    return searchHint(board, totalMines, 'STANDARD') ?? searchHint(board, totalMines, 'EXACT');
+}
+
+function searchHint(board: Board, totalMines: number, mode: SolverMode): Hint | null {
+    const solver = createSolver(board, totalMines, mode);
+    let checked = 0;
+
+    // 軽い推論から順に試し、プレイヤーがまだ対処していないマスが見つかった時点で返す
+    while (solver.isValidState) {
+        const changed = solver.step();
+
+        const fresh = solver.deductions.slice(checked);
+        checked = solver.deductions.length;
+        const actionable = fresh.filter(d =>
+            d.isMine ? board.status[d.cell] === 'HIDDEN' : board.status[d.cell] !== 'OPENED'
+        );
+        const pick = actionable.find(d => !d.isMine) ?? actionable[0];
+        if (pick) return buildHint(board, totalMines, pick);
+
+        if (!changed) break;
+    }
+    return null;
+}
+
+// マスを開かずに、現在の盤面から確定できるマスをすべて求める（確定した順）
+export function findAllDeductions(board: Board, totalMines: number): Deduction[] {
+    const solver = createSolver(board, totalMines);
+    while (solver.isValidState && solver.step());
+    return solver.deductions;
+}
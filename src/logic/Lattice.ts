@@ -0,0 +1,257 @@
+/**
+ * src/logic/Lattice.ts
+ * マスの格子: 正方形 / 六角形 / 三角形。曲面（TopologyRegistry の貼り合わせ）とは独立に選ぶ
+ * 隣接の作り方、貼り合わせで格子が食い違わないための幅・高さの条件、平面上の形（描画とクリック判定）をまとめる
+ */
+
+import { tileOrientation, type TopologyDefinition } from './TopologyRegistry.ts';
+
+export type LatticeType = 'SQUARE' | 'HEX' | 'TRIANGLE';
+
+export type Point = [number, number];
+
+export interface LatticeDefinition {
+    type: LatticeType;
+    label: string;
+    // 無限に広がる格子上で、(x, y) のマスから隣接マスへのずれ
+    neighborOffsets(x: number, y: number): Point[];
+    // 上下の辺をひねって貼り合わせたときの、行 y の x 座標の写り先（盤面の幅 width）
+    mirrorX(x: number, y: number, width: number): number;
+    // 貼り合わせの向こうで格子が食い違う幅・高さならエラーメッセージを返す
+    gluingErrors(def: TopologyDefinition, width: number, height: number): string[];
+    // 正方形のマス1つ分を長さ1とした平面上での、(col, row) のマスの頂点と中心
+    cellPolygon(col: number, row: number): Point[];
+    cellCenter(col: number, row: number): Point;
+    // 盤面1枚分の大きさ（無限タイリングの周期）
+    tileSize(width: number, height: number): { width: number, height: number };
+    // 平面上の点を含むマスの候補（境界付近は cellAtPoint が周囲のマスと比べる）
+    approximateCell(px: number, py: number): Point;
+    // 数字や旗の大きさの目安（正方形のマスを1とする）
+    labelScale: number;
+}
+
+// エラーメッセージ用の貼り合わせの呼び方（例: twisted left–right gluing）
+function gluingName(axis: 'horizontal' | 'vertical', def: TopologyDefinition): string {
+    const gluing = axis === 'horizontal' ? def.edges.left : def.edges.top;
+    const edges = axis === 'horizontal' ? 'left–right' : 'top–bottom';
+    return `${gluing === 'TWISTED' ? 'twisted ' : ''}${edges} gluing`;
+}
+
+// 六角形・三角形の規則的な敷き詰めはオイラー標数0の閉曲面にしかできない（射影平面は1）
+function projectiveError(def: TopologyDefinition, name: string): string[] | null {
+    if (def.edges.left !== 'TWISTED' || def.edges.top !== 'TWISTED') return null;
+    return [`A ${name} lattice cannot tile a surface with both edge pairs twisted (projective plane).`];
+}
+
+// --- 正方形 ---
+
+const MOORE_OFFSETS: Point[] = [];
+for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+        if (dx !== 0 || dy !== 0) MOORE_OFFSETS.push([dx, dy]);
+    }
+}
+
+const SQUARE: LatticeDefinition = {
+    type: 'SQUARE',
+    label: '正方形 (Square)',
+    neighborOffsets: () => MOORE_OFFSETS,
+    mirrorX: (x, _y, width) => width - 1 - x,
+    gluingErrors: () => [],
+    cellPolygon: (col, row) => [[col, row], [col + 1, row], [col + 1, row + 1], [col, row + 1]],
+    cellCenter: (col, row) => [col + 0.5, row + 0.5],
+    tileSize: (width, height) => ({ width, height }),
+    approximateCell: (px, py) => [Math.floor(px), Math.floor(py)],
+    labelScale: 1,
+};
+
+// --- 六角形（頂点が上下を向き、奇数行を半マス右にずらす） ---
+
+const HEX_HEIGHT = 2 / Math.sqrt(3);
+const HEX_ROW_PITCH = HEX_HEIGHT * 0.75;
+
+const HEX_EVEN_ROW_OFFSETS: Point[] = [[-1, -1], [0, -1], [-1, 0], [1, 0], [-1, 1], [0, 1]];
+const HEX_ODD_ROW_OFFSETS: Point[] = [[0, -1], [1, -1], [-1, 0], [1, 0], [0, 1], [1, 1]];
+
+const hexCenter = (col: number, row: number): Point => [col + 0.5 + 0.5 * (row & 1), (row + 0.5) * HEX_ROW_PITCH];
+
+/**
+ * 上下に貼り合わせると行の偶奇がずれないよう高さは偶数、
+ * 左右をひねると上下反転で行の偶奇が変わらないよう高さは奇数でなければならない。
+ * 上下のひねり（左右反転）は奇数行の写り先が半マスずれるので、左右も貼り合わせている必要がある。
+ */
+const HEX: LatticeDefinition = {
+    type: 'HEX',
+    label: '六角形 (Hex)',
+    neighborOffsets: (_x, y) => (y & 1) === 0 ? HEX_EVEN_ROW_OFFSETS : HEX_ODD_ROW_OFFSETS,
+    mirrorX: (x, y, width) => (y & 1) === 0 ? width - 1 - x : (2 * width - 2 - x) % width,
+    gluingErrors: (def, _width, height) => {
+        const projective = projectiveError(def, 'hex');
+        if (projective) return projective;
+        const errors: string[] = [];
+        if (def.edges.top !== 'OPEN' && height % 2 !== 0) {
+            errors.push(`A hex lattice with ${gluingName('vertical', def)} needs an even height.`);
+        }
+        if (def.edges.left === 'TWISTED' && height % 2 === 0) {
+            errors.push(`A hex lattice with ${gluingName('horizontal', def)} needs an odd height.`);
+        }
+        if (def.edges.top === 'TWISTED' && def.edges.left === 'OPEN') {
+            errors.push(`A hex lattice with ${gluingName('vertical', def)} needs the left–right edges glued as well.`);
+        }
+        return errors;
+    },
+    cellPolygon: (col, row) => {
+        const [cx, cy] = hexCenter(col, row);
+        return [
+            [cx, cy - HEX_HEIGHT / 2], [cx + 0.5, cy - HEX_HEIGHT / 4], [cx + 0.5, cy + HEX_HEIGHT / 4],
+            [cx, cy + HEX_HEIGHT / 2], [cx - 0.5, cy + HEX_HEIGHT / 4], [cx - 0.5, cy - HEX_HEIGHT / 4],
+        ];
+    },
+    cellCenter: hexCenter,
+    tileSize: (width, height) => ({ width, height: height * HEX_ROW_PITCH }),
+    approximateCell: (px, py) => {
+        const row = Math.floor(py / HEX_ROW_PITCH);
+        return [Math.floor(px - 0.5 * (row & 1)), row];
+    },
+    labelScale: 0.9,
+};
+
+// --- 三角形（(x + y) が偶数なら上向き。頂点を共有する12マスを隣接とする） ---
+
+const TRIANGLE_SIDE = 1.5;
+const TRIANGLE_ROW_HEIGHT = TRIANGLE_SIDE * Math.sqrt(3) / 2;
+
+const rowOffsets = (dy: number, from: number, to: number): Point[] =>
+    Array.from({ length: to - from + 1 }, (_, i) => [from + i, dy] as Point);
+// 上向きは頂点で上の行の3マス、底辺で下の行の5マスと接する（下向きはその上下逆）
+const TRIANGLE_UP_OFFSETS: Point[] = [
+    ...rowOffsets(-1, -1, 1), [-2, 0], [-1, 0], [1, 0], [2, 0], ...rowOffsets(1, -2, 2),
+];
+const TRIANGLE_DOWN_OFFSETS: Point[] = [
+    ...rowOffsets(-1, -2, 2), [-2, 0], [-1, 0], [1, 0], [2, 0], ...rowOffsets(1, -1, 1),
+];
+
+const isUpTriangle = (col: number, row: number) => ((col + row) & 1) === 0;
+
+/**
+ * 左右・上下にそのまま貼り合わせると向きの偶奇がずれないよう、幅・高さはそれぞれ偶数。
+ * 左右のひねりは上下反転で上向きと下向きが入れ替わるので幅 + 高さが偶数、
+ * 上下のひねりは左右反転で向きが変わらないので幅 + 高さが奇数でなければならない。
+ */
+const TRIANGLE: LatticeDefinition = {
+    type: 'TRIANGLE',
+    label: '三角形 (Triangle)',
+    neighborOffsets: (x, y) => isUpTriangle(x, y) ? TRIANGLE_UP_OFFSETS : TRIANGLE_DOWN_OFFSETS,
+    mirrorX: (x, _y, width) => width - 1 - x,
+    gluingErrors: (def, width, height) => {
+        const projective = projectiveError(def, 'triangle');
+        if (projective) return projective;
+        const errors: string[] = [];
+        const horizontal = def.edges.left;
+        const vertical = def.edges.top;
+        if (horizontal === 'STRAIGHT' && width % 2 !== 0) {
+            errors.push(`A triangle lattice with ${gluingName('horizontal', def)} needs an even width.`);
+        }
+        if (horizontal === 'TWISTED' && (width + height) % 2 !== 0) {
+            errors.push(`A triangle lattice with ${gluingName('horizontal', def)} needs width + height to be even.`);
+        }
+        if (vertical === 'STRAIGHT' && height % 2 !== 0) {
+            errors.push(`A triangle lattice with ${gluingName('vertical', def)} needs an even height.`);
+        }
+        if (vertical === 'TWISTED' && (width + height) % 2 === 0) {
+            errors.push(`A triangle lattice with ${gluingName('vertical', def)} needs width + height to be odd.`);
+        }
+        return errors;
+    },
+    cellPolygon: (col, row) => {
+        const cx = (col + 0.5) * TRIANGLE_SIDE / 2;
+        const top = row * TRIANGLE_ROW_HEIGHT;
+        const bottom = top + TRIANGLE_ROW_HEIGHT;
+        const half = TRIANGLE_SIDE / 2;
+        return isUpTriangle(col, row)
+            ? [[cx, top], [cx + half, bottom], [cx - half, bottom]]
+            : [[cx - half, top], [cx + half, top], [cx, bottom]];
+    },
+    cellCenter: (col, row) => [
+        (col + 0.5) * TRIANGLE_SIDE / 2,
+        (row + (isUpTriangle(col, row) ? 2 / 3 : 1 / 3)) * TRIANGLE_ROW_HEIGHT,
+    ],
+    tileSize: (width, height) => ({ width: width * TRIANGLE_SIDE / 2, height: height * TRIANGLE_ROW_HEIGHT }),
+    approximateCell: (px, py) => [Math.floor(px / (TRIANGLE_SIDE / 2)), Math.floor(py / TRIANGLE_ROW_HEIGHT)],
+    labelScale: 0.6,
+};
+
+const LATTICES: Record<LatticeType, LatticeDefinition> = { SQUARE, HEX, TRIANGLE };
+
+export function isLatticeType(value: unknown): value is LatticeType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LATTICES, value);
+}
+
+// 省略時は正方形
+export function getLattice(type: LatticeType = 'SQUARE'): LatticeDefinition {
+    return LATTICES[type];
+}
+
+export function listLattices(): LatticeDefinition[] {
+    return Object.values(LATTICES);
+}
+
+/**
+ * 無限格子上の座標 (tx, ty) を、貼り合わせ規則に従って盤面内の座標に写す。
+ * 正方形なら mapGluedCoordinate と同じ。六角形では上下のひねりで奇数行の写り先が変わる。
+ */
+export function mapLatticeCoordinate(
+    lattice: LatticeDefinition,
+    def: TopologyDefinition,
+    w: number,
+    h: number,
+    tx: number,
+    ty: number
+): { nx: number, ny: number, valid: boolean } {
+    const nx = ((tx % w) + w) % w;
+    const ny = ((ty % h) + h) % h;
+
+    const orientation = tileOrientation(def, Math.floor(tx / w), Math.floor(ty / h));
+    if (!orientation) return { nx, ny, valid: false };
+
+    const flippedY = orientation.flipY ? h - 1 - ny : ny;
+    return {
+        nx: orientation.flipX ? lattice.mirrorX(nx, flippedY, w) : nx,
+        ny: flippedY,
+        valid: true,
+    };
+}
+
+function containsPoint(polygon: Point[], x: number, y: number): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+// 平面上の点 (px, py) を含むマスの (col, row)（無限タイリングの座標）
+export function cellAtPoint(lattice: LatticeDefinition, px: number, py: number): Point {
+    const [col, row] = lattice.approximateCell(px, py);
+    for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+            if (containsPoint(lattice.cellPolygon(col + dx, row + dy), px, py)) return [col + dx, row + dy];
+        }
+    }
+    return [col, row];
+}
+
+// 平面上の長方形 [x0, x1] × [y0, y1] に掛かるマスの範囲（少し余裕を持たせる）
+export function visibleCells(
+    lattice: LatticeDefinition,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number
+): { startCol: number, endCol: number, startRow: number, endRow: number } {
+    const [startCol, startRow] = lattice.approximateCell(x0, y0);
+    const [endCol, endRow] = lattice.approximateCell(x1, y1);
+    return { startCol: startCol - 1, endCol: endCol + 1, startRow: startRow - 1, endRow: endRow + 1 };
+}
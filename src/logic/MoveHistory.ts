@@ -0,0 +1,60 @@
+/**
+ * src/logic/MoveHistory.ts
+ * 操作履歴: 開く・旗・コードの時刻付きログと、取り消し／やり直し用のスタック
+ */
+
+export type MoveType = 'OPEN' | 'FLAG' | 'CHORD';
+
+// 盤面に対して行われた操作（リプレイや統計の元データ）
+export type GameAction =
+    | { type: MoveType, index: number, timestamp: number }
+    | { type: 'UNDO' | 'REDO', timestamp: number };
+
+// 取り消しに必要な差分
+export interface HistoryEntry {
+    type: MoveType;
+    index: number;
+    // この操作で開いたマス
+    opened: number[];
+    exploded: boolean;
+}
+
+export class MoveHistory {
+    // 取り消し・やり直しも含めた、すべての操作の記録
+    log: GameAction[];
+    undoStack: HistoryEntry[];
+    redoStack: HistoryEntry[];
+    // 地雷を踏んだ操作を取り消したことがあるか（練習モードで続けたゲームは成績に数えない）
+    undidFatal: boolean;
+
+    constructor() {
+        this.log = [];
+        this.undoStack = [];
+        this.redoStack = [];
+        this.undidFatal = false;
+    }
+
+    clone(): MoveHistory {
+        const history = new MoveHistory();
+        history.log = [...this.log];
+        history.undoStack = [...this.undoStack];
+        history.redoStack = [...this.redoStack];
+        history.undidFatal = this.undidFatal;
+        return history;
+    }
+
+    /**
+     * 直前の操作を取り消せるか。
+     * 旗は常に取り消せる。開く操作は情報が見えてしまうので、
+     * 練習モードで地雷を踏んだ場合に限り取り消せる。
+     */
+    canUndo(allowFatal: boolean): boolean {
+        const last = this.undoStack[this.undoStack.length - 1];
+        if (!last) return false;
+        return last.type === 'FLAG' || (allowFatal && last.exploded);
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * src/logic/Neighborhood.ts
+ * 隣接ルール: 正方形の格子で、どのマスを「隣」として数字に数えるか
+ * どのルールも Topology.mapCoordinate の貼り合わせを通るので、すべての曲面で使える
+ */
+
+import type { Point } from './Lattice.ts';
+
+export type NeighborhoodType = 'MOORE' | 'VON_NEUMANN' | 'RADIUS_2' | 'KNIGHT' | 'CUSTOM';
+
+export interface NeighborhoodDefinition {
+    type: NeighborhoodType;
+    label: string;
+    // 隣接マスへのずれ（CUSTOM は設定の customOffsets を使うので空）
+    offsets: Point[];
+}
+
+// 自由指定のずれの上限（これより遠いと、小さい盤面で同じマスに何度も行き着くだけになる）
+export const MAX_CUSTOM_OFFSET = 3;
+
+// 中心を除く (2r+1)×(2r+1) の正方形
+function squareOffsets(radius: number): Point[] {
+    const offsets: Point[] = [];
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            if (dx !== 0 || dy !== 0) offsets.push([dx, dy]);
+        }
+    }
+    return offsets;
+}
+
+const NEIGHBORHOODS: Record<NeighborhoodType, NeighborhoodDefinition> = {
+    MOORE: { type: 'MOORE', label: '8 (Moore)', offsets: squareOffsets(1) },
+    VON_NEUMANN: { type: 'VON_NEUMANN', label: '4 (von Neumann)', offsets: [[0, -1], [-1, 0], [1, 0], [0, 1]] },
+    RADIUS_2: { type: 'RADIUS_2', label: '24 (Radius 2)', offsets: squareOffsets(2) },
+    KNIGHT: {
+        type: 'KNIGHT',
+        label: "8 (Knight's move)",
+        offsets: [[-1, -2], [1, -2], [-2, -1], [2, -1], [-2, 1], [2, 1], [-1, 2], [1, 2]],
+    },
+    CUSTOM: { type: 'CUSTOM', label: 'Custom', offsets: [] },
+};
+
+export function isNeighborhoodType(value: unknown): value is NeighborhoodType {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NEIGHBORHOODS, value);
+}
+
+export function getNeighborhood(type: NeighborhoodType): NeighborhoodDefinition {
+    return NEIGHBORHOODS[type];
+}
+
+export function listNeighborhoods(): NeighborhoodDefinition[] {
+    return Object.values(NEIGHBORHOODS);
+}
+
+/**
+ * 自由指定のずれを、上下・左右の反転で閉じた集合にする。
+ * ひねった辺の向こうからは反転したずれで戻ってくるので、こうしないと隣接が片方向になる。
+ */
+export function symmetrizeOffsets(offsets: Point[]): Point[] {
+    const seen = new Set<string>();
+    const result: Point[] = [];
+    for (const [dx, dy] of offsets) {
+        for (const [sx, sy] of [[1, 1], [-1, 1], [1, -1], [-1, -1]]) {
+            const offset: Point = [dx * sx || 0, dy * sy || 0];
+            const key = offset.join(',');
+            if ((offset[0] === 0 && offset[1] === 0) || seen.has(key)) continue;
+            seen.add(key);
+            result.push(offset);
+        }
+    }
+    return result;
+}
+
+// "1,2; 0,1" のような入力を読む（形式が不正なら null）
+export function parseOffsets(text: string): Point[] | null {
+    const parts = text.split(/[;\n]/).map(part => part.trim()).filter(part => part.length > 0);
+    const offsets: Point[] = [];
+    for (const part of parts) {
+        const match = /^(-?\d+)\s*,\s*(-?\d+)$/.exec(part);
+        if (!match) return null;
+        offsets.push([Number(match[1]), Number(match[2])]);
+    }
+    return offsets;
+}
+
+export function formatOffsets(offsets: Point[]): string {
+    return offsets.map(([dx, dy]) => `${dx},${dy}`).join('; ');
+}
+
+// 自由指定のずれの検証（エラーメッセージの一覧）
+export function customOffsetErrors(offsets: unknown): string[] {
+    if (!Array.isArray(offsets)) return ['Custom neighbourhood needs a list of offsets.'];
+    const valid = offsets.every(o =>
+        Array.isArray(o) && o.length === 2 && o.every(v => Number.isInteger(v) && Math.abs(v) <= MAX_CUSTOM_OFFSET)
+    );
+    if (!valid) return [`Custom offsets must be integer pairs between -${MAX_CUSTOM_OFFSET} and ${MAX_CUSTOM_OFFSET}.`];
+    if (symmetrizeOffsets(offsets as Point[]).length === 0) return ['Custom neighbourhood needs at least one non-zero offset.'];
+    return [];
+}
+
+/**
+ * 設定の隣接ルールが使うずれ。
+ * 指定がない（または MOORE の）場合は null を返し、格子自身の隣接を使う。
+ */
+export function neighborhoodOffsets(type: NeighborhoodType | undefined, customOffsets?: Point[]): Point[] | null {
+    if (type === undefined || type === 'MOORE') return null;
+    if (type === 'CUSTOM') return symmetrizeOffsets(customOffsets ?? []);
+    return NEIGHBORHOODS[type].offsets;
+}
@@ -0,0 +1,402 @@
+/**
+ * src/logic/PatchSurface.ts
+ * 複数の面（長方形のパッチ）を辺で貼り合わせた曲面: 球面（立方体の展開図）、2人乗りトーラス、連結和など
+ * 1枚の長方形の4辺の貼り合わせでは表せない曲面を、面どうしの辺の貼り合わせとして宣言する
+ * どの面も盤面設定の幅 × 高さのマスを持ち、マスの番号は面の順に並べる
+ */
+
+export type PatchSide = 'left' | 'right' | 'top' | 'bottom';
+
+export interface Patch {
+    // 表示用の面の名前
+    label: string;
+    // 展開図での置き場所（面1枚分を1とする単位）
+    x: number;
+    y: number;
+    // 展開図での向き（画面上で反時計回りに 90° 回す回数）
+    rotation: number;
+}
+
+export interface PatchEdge {
+    patch: number;
+    side: PatchSide;
+}
+
+/**
+ * 2つの面の辺の貼り合わせ。
+ * 辺上の位置は、左右の辺なら上から、上下の辺なら左から数える。reversed なら逆向きに貼る。
+ */
+export interface PatchSeam {
+    a: PatchEdge;
+    b: PatchEdge;
+    reversed: boolean;
+    label: string;
+}
+
+export interface PatchLayout {
+    patches: Patch[];
+    seams: PatchSeam[];
+}
+
+export interface PatchCell {
+    patch: number;
+    x: number;
+    y: number;
+}
+
+const SIDES: PatchSide[] = ['left', 'right', 'top', 'bottom'];
+
+const isVertical = (side: PatchSide) => side === 'left' || side === 'right';
+
+/**
+ * 面の並びと貼り合わせが正しいか確かめる（登録時に使う）。
+ * 貼り合わせのない辺は開いた端になるが、1つの辺を2回貼ることはできない。
+ */
+export function validatePatchLayout(type: string, layout: PatchLayout) {
+    if (layout.patches.length === 0) throw new Error(`Topology ${type}: a patch surface needs at least one patch`);
+    const used = new Set<string>();
+    for (const seam of layout.seams) {
+        for (const { patch, side } of [seam.a, seam.b]) {
+            if (!Number.isInteger(patch) || patch < 0 || patch >= layout.patches.length) {
+                throw new Error(`Topology ${type}: seam ${seam.label} refers to unknown patch ${patch}`);
+            }
+            const key = `${patch}:${side}`;
+            if (used.has(key)) throw new Error(`Topology ${type}: the ${side} side of patch ${patch} is glued twice`);
+            used.add(key);
+        }
+    }
+}
+
+// 面の幅と高さで作れるか（縦の辺と横の辺を貼る曲面や、展開図で横倒しにする面は正方形でなければならない）
+export function patchLayoutErrors(layout: PatchLayout, width: number, height: number): string[] {
+    if (width === height) return [];
+    const needsSquare = layout.seams.some(seam => isVertical(seam.a.side) !== isVertical(seam.b.side))
+        || layout.patches.some(patch => patch.rotation % 2 !== 0);
+    return needsSquare ? ['This surface glues vertical edges to horizontal ones, so its faces must be square (width = height).'] : [];
+}
+
+export function patchCellCount(layout: PatchLayout, width: number, height: number): number {
+    return layout.patches.length * width * height;
+}
+
+export function toPatchCell(width: number, height: number, index: number): PatchCell {
+    const local = index % (width * height);
+    return { patch: Math.floor(index / (width * height)), x: local % width, y: Math.floor(local / width) };
+}
+
+export function fromPatchCell(width: number, height: number, { patch, x, y }: PatchCell): number {
+    return patch * width * height + y * width + x;
+}
+
+// 辺の長さと、辺上の位置 t にある（辺に接する）マス
+function sideLength(side: PatchSide, width: number, height: number): number {
+    return isVertical(side) ? height : width;
+}
+
+function cellOnSide(side: PatchSide, t: number, width: number, height: number): { x: number, y: number } {
+    switch (side) {
+        case 'left': return { x: 0, y: t };
+        case 'right': return { x: width - 1, y: t };
+        case 'top': return { x: t, y: 0 };
+        case 'bottom': return { x: t, y: height - 1 };
+    }
+}
+
+// 辺の両端の格子点（辺上の位置の向きに並べる）
+function sideEndpoints(side: PatchSide, width: number, height: number): [[number, number], [number, number]] {
+    switch (side) {
+        case 'left': return [[0, 0], [0, height]];
+        case 'right': return [[width, 0], [width, height]];
+        case 'top': return [[0, 0], [width, 0]];
+        case 'bottom': return [[0, height], [width, height]];
+    }
+}
+
+// 辺の向こうの貼り合わせ先（貼り合わせがなければ null）
+function seamPartner(layout: PatchLayout, patch: number, side: PatchSide): { edge: PatchEdge, seam: PatchSeam } | null {
+    for (const seam of layout.seams) {
+        if (seam.a.patch === patch && seam.a.side === side) return { edge: seam.b, seam };
+        if (seam.b.patch === patch && seam.b.side === side) return { edge: seam.a, seam };
+    }
+    return null;
+}
+
+const SIDE_STEPS: Record<PatchSide, [number, number]> = { left: [-1, 0], right: [1, 0], top: [0, -1], bottom: [0, 1] };
+
+/**
+ * side の向きに1マス進んだ先のマス。面の端では貼り合わせ先の面のマスへ移り、越えた貼り合わせを seam に返す。
+ * 貼り合わせのない辺（開いた端）の向こうなら null。
+ */
+export function patchStep(layout: PatchLayout, width: number, height: number, cell: PatchCell, side: PatchSide): { cell: PatchCell, seam: PatchSeam | null } | null {
+    const [dx, dy] = SIDE_STEPS[side];
+    const x = cell.x + dx;
+    const y = cell.y + dy;
+    if (x >= 0 && x < width && y >= 0 && y < height) return { cell: { patch: cell.patch, x, y }, seam: null };
+    const partner = seamPartner(layout, cell.patch, side);
+    if (!partner) return null;
+    const t = isVertical(side) ? cell.y : cell.x;
+    const length = sideLength(partner.edge.side, width, height);
+    const across = cellOnSide(partner.edge.side, partner.seam.reversed ? length - 1 - t : t, width, height);
+    return { cell: { patch: partner.edge.patch, ...across }, seam: partner.seam };
+}
+
+// 辺を共有するマス（上下左右）
+function edgeNeighbors(layout: PatchLayout, width: number, height: number, cell: PatchCell): PatchCell[] {
+    return SIDES.flatMap(side => patchStep(layout, width, height, cell, side)?.cell ?? []);
+}
+
+/**
+ * 頂点を共有するマスの一覧（マスの番号ごと）。
+ * 面の角では4つより多い（または少ない）マスが集まることがあるので、
+ * 貼り合わせで同じになる格子点を Union-Find でまとめ、頂点を1つでも共有するマスを隣接とみなす。
+ */
+function vertexNeighbors(layout: PatchLayout, width: number, height: number): number[][] {
+    const pointsPerPatch = (width + 1) * (height + 1);
+    const parent = Array.from({ length: layout.patches.length * pointsPerPatch }, (_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+    const pointId = (patch: number, [px, py]: [number, number]) => patch * pointsPerPatch + py * (width + 1) + px;
+    // 辺上の位置 s（0 ～ 辺の長さ）の格子点
+    const sidePoint = (side: PatchSide, s: number): [number, number] => {
+        const [[x0, y0], [x1, y1]] = sideEndpoints(side, width, height);
+        return [x0 + Math.sign(x1 - x0) * s, y0 + Math.sign(y1 - y0) * s];
+    };
+
+    for (const { a, b, reversed } of layout.seams) {
+        const length = sideLength(a.side, width, height);
+        for (let s = 0; s <= length; s++) {
+            const p = find(pointId(a.patch, sidePoint(a.side, s)));
+            const q = find(pointId(b.patch, sidePoint(b.side, reversed ? length - s : s)));
+            parent[p] = q;
+        }
+    }
+
+    // 頂点ごとに、その頂点を角に持つマス
+    const size = patchCellCount(layout, width, height);
+    const cornerCells = new Map<number, number[]>();
+    const corners: number[][] = [];
+    for (let i = 0; i < size; i++) {
+        const { patch, x, y } = toPatchCell(width, height, i);
+        corners[i] = [[x, y], [x + 1, y], [x, y + 1], [x + 1, y + 1]].map(p => find(pointId(patch, p as [number, number])));
+        for (const vertex of corners[i]) {
+            const list = cornerCells.get(vertex) ?? [];
+            list.push(i);
+            cornerCells.set(vertex, list);
+        }
+    }
+
+    return corners.map((vertices, i) => {
+        const neighbors: number[] = [];
+        for (const vertex of vertices) {
+            for (const cell of cornerCells.get(vertex)!) {
+                if (cell !== i && !neighbors.includes(cell)) neighbors.push(cell);
+            }
+        }
+        return neighbors;
+    });
+}
+
+/**
+ * 隣接グラフ。edgesOnly なら辺を共有するマスだけ（上下左右の4マスに相当）、
+ * そうでなければ頂点を共有するマス（周囲8マスに相当）。
+ */
+export function buildPatchAdjacency(layout: PatchLayout, width: number, height: number, edgesOnly: boolean): number[][] {
+    if (!edgesOnly) return vertexNeighbors(layout, width, height);
+    const size = patchCellCount(layout, width, height);
+    const adjacency: number[][] = [];
+    for (let i = 0; i < size; i++) {
+        const neighbors: number[] = [];
+        for (const cell of edgeNeighbors(layout, width, height, toPatchCell(width, height, i))) {
+            const neighbor = fromPatchCell(width, height, cell);
+            if (neighbor !== i && !neighbors.includes(neighbor)) neighbors.push(neighbor);
+        }
+        adjacency[i] = neighbors;
+    }
+    return adjacency;
+}
+
+// --- 展開図 ---
+
+// 面の中の点 (u, v) を、向きを考慮して展開図上の点（面の左上を原点とする）に写す
+function rotatePoint(rotation: number, width: number, height: number, u: number, v: number): [number, number] {
+    switch (((rotation % 4) + 4) % 4) {
+        case 1: return [v, width - u];
+        case 2: return [width - u, height - v];
+        case 3: return [height - v, u];
+        default: return [u, v];
+    }
+}
+
+// 展開図全体の大きさ（マス単位）
+export function patchNetSize(layout: PatchLayout, width: number, height: number): { width: number, height: number } {
+    let cols = 0;
+    let rows = 0;
+    for (const patch of layout.patches) {
+        cols = Math.max(cols, (patch.x + 1) * width);
+        rows = Math.max(rows, (patch.y + 1) * height);
+    }
+    return { width: cols, height: rows };
+}
+
+// 展開図上の点（マス単位）。面の中の点 (u, v) を写す
+export function patchNetPoint(layout: PatchLayout, width: number, height: number, patch: number, u: number, v: number): [number, number] {
+    const { x, y, rotation } = layout.patches[patch];
+    const [px, py] = rotatePoint(rotation, width, height, u, v);
+    return [x * width + px, y * height + py];
+}
+
+// マスが展開図で置かれる列と行
+export function patchNetCell(layout: PatchLayout, width: number, height: number, index: number): { col: number, row: number } {
+    const { patch, x, y } = toPatchCell(width, height, index);
+    const [cx, cy] = patchNetPoint(layout, width, height, patch, x + 0.5, y + 0.5);
+    return { col: Math.floor(cx), row: Math.floor(cy) };
+}
+
+// 展開図の (col, row) にあるマスの番号（面の外なら null）
+export function patchCellAt(layout: PatchLayout, width: number, height: number, col: number, row: number): number | null {
+    for (let patch = 0; patch < layout.patches.length; patch++) {
+        const { x, y, rotation } = layout.patches[patch];
+        const ox = col - x * width;
+        const oy = row - y * height;
+        if (ox < 0 || oy < 0 || ox >= width || oy >= height) continue;
+        // 向きの逆変換（正方形でない面は回さない）
+        let u: number, v: number;
+        switch (((rotation % 4) + 4) % 4) {
+            case 1: [u, v] = [width - 1 - oy, ox]; break;
+            case 2: [u, v] = [width - 1 - ox, height - 1 - oy]; break;
+            case 3: [u, v] = [oy, height - 1 - ox]; break;
+            default: [u, v] = [ox, oy]; break;
+        }
+        return fromPatchCell(width, height, { patch, x: u, y: v });
+    }
+    return null;
+}
+
+/**
+ * 貼り合わせの両側の辺の、展開図上の線分。
+ * joined は、展開図でも貼り合わせ先と隙間なく同じ向きで接していること（印を付ける必要がない）。
+ */
+export interface NetSeam {
+    seam: PatchSeam;
+    a: [[number, number], [number, number]];
+    b: [[number, number], [number, number]];
+    joined: boolean;
+}
+
+// 面の辺の展開図上の線分（辺上の位置の向きに並べる）
+export function patchNetEdge(layout: PatchLayout, width: number, height: number, { patch, side }: PatchEdge): [[number, number], [number, number]] {
+    const [[u0, v0], [u1, v1]] = sideEndpoints(side, width, height);
+    return [patchNetPoint(layout, width, height, patch, u0, v0), patchNetPoint(layout, width, height, patch, u1, v1)];
+}
+
+export function patchNetSeams(layout: PatchLayout, width: number, height: number): NetSeam[] {
+    const segment = (edge: PatchEdge) => patchNetEdge(layout, width, height, edge);
+    const same = (p: [number, number], q: [number, number]) => p[0] === q[0] && p[1] === q[1];
+    return layout.seams.map(seam => {
+        const a = segment(seam.a);
+        const b = segment(seam.b);
+        const [b0, b1] = seam.reversed ? [b[1], b[0]] : b;
+        return { seam, a, b, joined: same(a[0], b0) && same(a[1], b1) };
+    });
+}
+
+// どの面の辺にも貼り合わせがない辺（開いた端）
+export function openPatchSides(layout: PatchLayout): PatchEdge[] {
+    const open: PatchEdge[] = [];
+    layout.patches.forEach((_, patch) => {
+        for (const side of SIDES) {
+            if (!seamPartner(layout, patch, side)) open.push({ patch, side });
+        }
+    });
+    return open;
+}
+
+// --- 多角形の辺の語からの構成 ---
+
+/**
+ * 多角形の辺の語（例: トーラスは "abAB"。大文字は逆向き）から曲面を作る。
+ * 多角形を中心・辺の中点・頂点を結ぶ四角形（凧形）に分け、それぞれを正方形の面にする。
+ * 凧形 i の角は 左上 = 中心、左下 = 辺 i の中点、右下 = 頂点 i+1、右上 = 辺 i+1 の中点。
+ * 展開図では4枚ずつ中心のまわりに並べる。
+ */
+export function polygonLayout(word: string): PatchLayout {
+    const letters = [...word];
+    const n = letters.length;
+    const counts = new Map<string, number>();
+    for (const letter of letters) {
+        if (!/^[a-z]$/i.test(letter)) throw new Error(`Polygon word ${word}: edges must be labelled with letters`);
+        counts.set(letter.toLowerCase(), (counts.get(letter.toLowerCase()) ?? 0) + 1);
+    }
+    for (const [letter, count] of counts) {
+        if (count !== 2) throw new Error(`Polygon word ${word}: edge ${letter} must appear exactly twice`);
+    }
+
+    // 中心のまわりの4つの象限（凧形の向きごとの置き場所）
+    const quadrants = [[1, 1], [1, 0], [0, 0], [0, 1]];
+    const patches: Patch[] = letters.map((_, i) => {
+        const [qx, qy] = quadrants[i % 4];
+        return { label: String(i + 1), x: Math.floor(i / 4) * 3 + qx, y: qy, rotation: i % 4 };
+    });
+    // 4枚に満たないまとまりで空いた行・列を詰める
+    const minX = Math.min(...patches.map(p => p.x));
+    const minY = Math.min(...patches.map(p => p.y));
+    for (const patch of patches) {
+        patch.x -= minX;
+        patch.y -= minY;
+    }
+
+    // 中心から辺の中点への線で、隣り合う凧形を貼る
+    const seams: PatchSeam[] = letters.map((_, i) => ({
+        a: { patch: i, side: 'top' }, b: { patch: (i + 1) % n, side: 'left' }, reversed: false, label: String(i + 1),
+    }));
+
+    // 辺 i の前半（頂点 i から中点まで）は凧形 i-1 の右の辺、後半は凧形 i の下の辺
+    const firstHalf = (i: number): PatchEdge => ({ patch: (i + n - 1) % n, side: 'right' });
+    const secondHalf = (i: number): PatchEdge => ({ patch: i, side: 'bottom' });
+    const paired = new Set<number>();
+    for (let i = 0; i < n; i++) {
+        if (paired.has(i)) continue;
+        const j = letters.findIndex((letter, k) => k !== i && letter.toLowerCase() === letters[i].toLowerCase());
+        paired.add(i).add(j);
+        const label = letters[i].toLowerCase();
+        // 同じ向きなら前半どうし・後半どうし、逆向きなら前半と後半を貼る
+        const sameDirection = letters[i] === letters[j];
+        seams.push(
+            { a: firstHalf(i), b: sameDirection ? firstHalf(j) : secondHalf(j), reversed: false, label },
+            { a: secondHalf(i), b: sameDirection ? secondHalf(j) : firstHalf(j), reversed: false, label: `${label}′` },
+        );
+    }
+    return { patches, seams };
+}
+
+/**
+ * 多角形の語の連結和。2つ目以降の語の文字を、重ならないよう後ろの文字に付け替えてつなぐ。
+ * 例: トーラス "abAB" とトーラスの連結和は 2人乗りトーラス "abABcdCD"。
+ */
+export function connectedSum(...words: string[]): string {
+    let result = '';
+    let next = 0;
+    for (const word of words) {
+        const rename = new Map<string, string>();
+        for (const letter of word) {
+            const lower = letter.toLowerCase();
+            if (!rename.has(lower)) rename.set(lower, String.fromCharCode('a'.charCodeAt(0) + next++));
+            const renamed = rename.get(lower)!;
+            result += letter === lower ? renamed : renamed.toUpperCase();
+        }
+    }
+    return result;
+}
+
+// 閉曲面の語
+export const POLYGON_WORDS = {
+    SPHERE: 'aA',
+    TORUS: 'abAB',
+    PROJECTIVE: 'aa',
+    KLEIN: 'abaB',
+};
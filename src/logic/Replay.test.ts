@@ -0,0 +1,38 @@
+/**
+ * src/logic/Replay.test.ts
+ * リプレイ: 書き出したものを読み込んで同じ局面まで再生できること、地雷の並びが設定と合わないものを拒むこと
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Board, createTopology, type GameConfig } from './GameCore.ts';
+import { buildReplayBoard, createReplay, parseReplay, serializeReplay } from './Replay.ts';
+
+const config: GameConfig = { width: 4, height: 4, mines: 2, topologyType: 'TORUS' };
+
+function playedBoard(): Board {
+    const board = new Board(createTopology(config));
+    board.setMines(board.mines.map((_, i) => i === 5 || i === 10));
+    board.perform('OPEN', 0, 1000);
+    board.perform('FLAG', 5, 2000);
+    return board;
+}
+
+describe('Replay', () => {
+    it('round-trips and replays to the same position', () => {
+        const board = playedBoard();
+        const replay = parseReplay(serializeReplay(createReplay(board, config, 42)));
+        expect(replay).not.toBeNull();
+        expect(replay!.mines).toEqual([5, 10]);
+        const replayed = buildReplayBoard(replay!, replay!.actions.length);
+        expect(replayed.status).toEqual(board.status);
+    });
+
+    it.each([
+        ['fewer mines than the config', [5]],
+        ['more mines than the config', [5, 10, 11]],
+        ['a repeated mine', [5, 5]],
+    ])('rejects %s', (_, mines) => {
+        const replay = { ...createReplay(playedBoard(), config, 42), mines };
+        expect(parseReplay(serializeReplay(replay))).toBeNull();
+    });
+});
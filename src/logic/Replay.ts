@@ -0,0 +1,110 @@
+/**
+ * src/logic/Replay.ts
+ * リプレイ: 設定・地雷配置・時刻付きの操作ログをバージョン付き JSON として保存し、任意の手数まで再生する
+ */
+
+import { Board, cellCount, createTopology, isInteger, parseGameConfig, validateConfig, type GameConfig } from './GameCore.ts';
+import type { GameAction } from './MoveHistory.ts';
+
+export const REPLAY_VERSION = 1;
+
+export interface Replay {
+    version: typeof REPLAY_VERSION;
+    config: GameConfig;
+    // 共有コード用のシード（不明なら null）。再生には mines を使う
+    seed: number | null;
+    // 地雷のあるマスの番号
+    mines: number[];
+    actions: GameAction[];
+}
+
+export function createReplay(board: Board, config: GameConfig, seed: number | null): Replay {
+    const mines: number[] = [];
+    board.mines.forEach((isMine, i) => { if (isMine) mines.push(i); });
+    return { version: REPLAY_VERSION, config, seed, mines, actions: [...board.history.log] };
+}
+
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+function isValidAction(value: unknown, size: number): value is GameAction {
+    if (typeof value !== 'object' || value === null) return false;
+    const action = value as Record<string, unknown>;
+    if (typeof action.timestamp !== 'number' || !Number.isFinite(action.timestamp)) return false;
+    switch (action.type) {
+        case 'OPEN':
+        case 'FLAG':
+        case 'CHORD':
+            return isInteger(action.index, 0, size - 1);
+        case 'UNDO':
+        case 'REDO':
+            return true;
+        default:
+            return false;
+    }
+}
+
+// 形式が不正なリプレイは null
+export function parseReplay(text: string): Replay | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    return validateReplay(data);
+}
+
+// JSON.parse 済みの値がリプレイとして正しいか検証する（セーブデータの読み込みでも使う）
+export function validateReplay(data: unknown): Replay | null {
+    if (typeof data !== 'object' || data === null) return null;
+    const replay = data as Record<string, unknown>;
+    if (replay.version !== REPLAY_VERSION) return null;
+
+    const gameConfig = parseGameConfig(replay.config);
+    if (!gameConfig || validateConfig(gameConfig).errors.length > 0) return null;
+    const size = cellCount(gameConfig);
+
+    if (replay.seed !== null && !isInteger(replay.seed, 0, 0xFFFFFFFF)) return null;
+    if (!Array.isArray(replay.mines) || !replay.mines.every(m => isInteger(m, 0, size - 1))) return null;
+    // 地雷は設定どおりの数だけ、重複なく並んでいること
+    if (replay.mines.length !== gameConfig.mines || new Set(replay.mines).size !== replay.mines.length) return null;
+    if (!Array.isArray(replay.actions) || !replay.actions.every(a => isValidAction(a, size))) return null;
+
+    return {
+        version: REPLAY_VERSION,
+        config: gameConfig,
+        seed: replay.seed,
+        mines: replay.mines,
+        actions: replay.actions,
+    };
+}
+
+// 記録された操作を1つ盤面に適用する（練習モードの取り消しも記録どおりに再現する）
+export function applyAction(board: Board, action: GameAction) {
+    switch (action.type) {
+        case 'UNDO':
+            board.undo(true, action.timestamp);
+            break;
+        case 'REDO':
+            board.redo(action.timestamp);
+            break;
+        default:
+            board.perform(action.type, action.index, action.timestamp);
+            break;
+    }
+}
+
+// 最初の step 手を適用した盤面を作る
+export function buildReplayBoard(replay: Replay, step: number): Board {
+    const board = new Board(createTopology(replay.config));
+    const mines = new Array(board.topology.size).fill(false);
+    for (const m of replay.mines) mines[m] = true;
+    board.setMines(mines);
+
+    for (const action of replay.actions.slice(0, step)) {
+        applyAction(board, action);
+    }
+    return board;
+}
@@ -0,0 +1,119 @@
+/**
+ * src/logic/SaveGame.ts
+ * 途中保存: 進行中のゲームを localStorage に保存し、次回起動時に再開する
+ * 盤面の中身はリプレイ形式で持ち、操作を再適用した結果が保存された状態と一致するかで破損を検出する
+ */
+
+import { cellCount, type Board, type CellStatus, type GameConfig } from './GameCore.ts';
+import { buildReplayBoard, createReplay, validateReplay, type Replay } from './Replay.ts';
+
+export const SAVE_VERSION = 1;
+
+const STORAGE_KEY = 'topological-minesweeper:save';
+
+// 保存時のマスの状態（1マス1文字）
+const STATUS_CODES: Record<CellStatus, string> = { HIDDEN: 'H', OPENED: 'O', FLAGGED: 'F' };
+
+export interface SavedGame {
+    version: typeof SAVE_VERSION;
+    savedAt: number;
+    replay: Replay;
+    status: string;
+    elapsedMs: number;
+    camera: { x: number, y: number };
+}
+
+export function createSave(
+    board: Board,
+    config: GameConfig,
+    seed: number | null,
+    elapsedMs: number,
+    camera: { x: number, y: number }
+): SavedGame {
+    return {
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        replay: createReplay(board, config, seed),
+        status: board.status.map(s => STATUS_CODES[s]).join(''),
+        elapsedMs,
+        camera: { ...camera },
+    };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+// 形式が不正、古いバージョン、または終了済みのゲームは null
+export function validateSave(data: unknown): SavedGame | null {
+    if (typeof data !== 'object' || data === null) return null;
+    const save = data as Record<string, unknown>;
+    if (save.version !== SAVE_VERSION) return null;
+    if (!isFiniteNumber(save.savedAt) || !isFiniteNumber(save.elapsedMs) || save.elapsedMs < 0) return null;
+
+    const camera = save.camera as Record<string, unknown> | null;
+    if (typeof camera !== 'object' || camera === null) return null;
+    if (!isFiniteNumber(camera.x) || !isFiniteNumber(camera.y)) return null;
+
+    const replay = validateReplay(save.replay);
+    if (!replay) return null;
+    if (typeof save.status !== 'string' || save.status.length !== cellCount(replay.config) || !/^[HOF]*$/.test(save.status)) return null;
+
+    const result: SavedGame = {
+        version: SAVE_VERSION,
+        savedAt: save.savedAt,
+        replay,
+        status: save.status,
+        elapsedMs: save.elapsedMs,
+        camera: { x: camera.x, y: camera.y },
+    };
+    return restoreBoard(result) ? result : null;
+}
+
+/**
+ * 保存された操作を再適用して盤面を復元する。
+ * 保存された状態と一致しない場合や、すでに勝敗がついている場合は null。
+ */
+export function restoreBoard(save: SavedGame): Board | null {
+    const board = buildReplayBoard(save.replay, save.replay.actions.length);
+    const status = board.status.map(s => STATUS_CODES[s]).join('');
+    if (status !== save.status) return null;
+    if (board.hasExploded() || board.checkWin()) return null;
+    return board;
+}
+
+export function storeSavedGame(save: SavedGame) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+    } catch {
+        // 容量超過などで保存できなくてもゲームは続けられる
+    }
+}
+
+// 壊れた保存データは削除して null を返す
+export function loadSavedGame(): SavedGame | null {
+    let text: string | null;
+    try {
+        text = localStorage.getItem(STORAGE_KEY);
+    } catch {
+        return null;
+    }
+    if (text === null) return null;
+
+    let save: SavedGame | null = null;
+    try {
+        save = validateSave(JSON.parse(text));
+    } catch {
+        save = null;
+    }
+    if (!save) clearSavedGame();
+    return save;
+}
+
+export function clearSavedGame() {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // 何もしない
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * src/logic/ShareCode.ts
+ * 共有コード: シード・盤面サイズ・地雷数・トポロジー・最初のクリック位置を1行の文字列にまとめる
+ * 形式: TM1.<幅>.<高さ>.<地雷数>.<開始位置>.<シード>.<トポロジー>（数値は36進数）
+ * 正方形以外の格子や周囲8マス以外の隣接ルールは TM2.<幅>.<高さ>.<地雷数>.<開始位置>.<シード>.<格子>.<トポロジー>
+ * 格子の欄は <格子>~<隣接ルール>~<ずれ>（ずれは dx,dy,dx,dy,... で CUSTOM のときだけ）
+ * 難易度の範囲を指定した盤面は、格子の欄の末尾に !<範囲> を付ける（同じシードでも範囲が違えば盤面が変わるため）
+ */
+
+import { cellCount, validateConfig, type GameConfig } from './GameCore.ts';
+import { isLatticeType, type Point } from './Lattice.ts';
+import { isNeighborhoodType } from './Neighborhood.ts';
+import { isDifficultyBandType } from './Difficulty.ts';
+
+const SHARE_CODE_PREFIX = 'TM1';
+// 格子・隣接ルールの指定付き（標準の盤面は以前と同じ TM1 のコードになる）
+const LATTICE_SHARE_CODE_PREFIX = 'TM2';
+
+// TM2 の格子の欄
+function encodeLatticeField(config: GameConfig): string {
+    const fields: string[] = [config.lattice ?? 'SQUARE'];
+    if (config.neighborhood && config.neighborhood !== 'MOORE') {
+        fields.push(config.neighborhood);
+        if (config.neighborhood === 'CUSTOM') fields.push((config.customOffsets ?? []).flat().join(','));
+    }
+    const band = config.difficulty && config.difficulty !== 'ANY' ? `!${config.difficulty}` : '';
+    return fields.join('~') + band;
+}
+
+// 格子の欄を設定に書き戻す（不正なら false）
+function decodeLatticeField(field: string, config: GameConfig): boolean {
+    const [surface, band, ...extra] = field.split('!');
+    if (extra.length > 0) return false;
+    if (band !== undefined) {
+        if (!isDifficultyBandType(band)) return false;
+        config.difficulty = band;
+    }
+
+    const [lattice, neighborhood, offsets, ...rest] = surface.split('~');
+    if (rest.length > 0 || !isLatticeType(lattice)) return false;
+    if (lattice !== 'SQUARE') config.lattice = lattice;
+    if (neighborhood === undefined) return true;
+
+    if (!isNeighborhoodType(neighborhood)) return false;
+    config.neighborhood = neighborhood;
+    if (neighborhood !== 'CUSTOM') return offsets === undefined;
+
+    const values = (offsets ?? '').split(',').map(v => /^-?\d+$/.test(v) ? Number(v) : NaN);
+    if (values.length % 2 !== 0 || values.some(v => !Number.isSafeInteger(v))) return false;
+    const customOffsets: Point[] = [];
+    for (let i = 0; i < values.length; i += 2) customOffsets.push([values[i], values[i + 1]]);
+    config.customOffsets = customOffsets;
+    return true;
+}
+
+export interface SharedGame {
+    config: GameConfig;
+    seed: number;
+    startIndex: number;
+}
+
+export function encodeShareCode({ config, seed, startIndex }: SharedGame): string {
+    const numbers = [config.width, config.height, config.mines, startIndex, seed >>> 0].map(n => n.toString(36));
+    const latticeField = encodeLatticeField(config);
+    if (latticeField !== 'SQUARE') {
+        return [LATTICE_SHARE_CODE_PREFIX, ...numbers, latticeField, config.topologyType].join('.');
+    }
+    return [SHARE_CODE_PREFIX, ...numbers, config.topologyType].join('.');
+}
+
+// 不正なコードや未登録のトポロジーの場合は null
+export function decodeShareCode(code: string): SharedGame | null {
+    const parts = code.trim().split('.');
+    const hasLattice = parts[0] === LATTICE_SHARE_CODE_PREFIX;
+    if (parts[0] !== SHARE_CODE_PREFIX && !hasLattice) return null;
+    if (parts.length < (hasLattice ? 8 : 7)) return null;
+
+    const numbers = parts.slice(1, 6).map(part => /^[0-9a-z]+$/i.test(part) ? parseInt(part, 36) : NaN);
+    if (numbers.some(n => !Number.isSafeInteger(n))) return null;
+    const [width, height, mines, startIndex, seed] = numbers;
+
+    // トポロジー名に '.' が含まれていても復元できるよう、残りをすべてつなぐ
+    const topologyType = parts.slice(hasLattice ? 7 : 6).join('.');
+    const config: GameConfig = { width, height, mines, topologyType };
+    if (hasLattice && !decodeLatticeField(parts[6], config)) return null;
+
+    if (validateConfig(config).errors.length > 0) return null;
+    if (startIndex >= cellCount(config)) return null;
+    if (seed > 0xFFFFFFFF) return null;
+
+    return { config, seed, startIndex };
+}
@@ -0,0 +1,109 @@
+/**
+ * src/logic/Solver.test.ts
+ * ソルバーの健全性: 生成した盤面は最初のクリックから推測なしで解き切れ、どの推論も実際の地雷配置と食い違わない
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+    Board, Solver, centerCell, createRandom, createTopology, generateBoardAsync, validateConfig,
+    type GameConfig, type SolverMode,
+} from './GameCore.ts';
+import { findAllDeductions } from './Hint.ts';
+import { listTopologies } from './TopologyRegistry.ts';
+
+const topologyTypes = listTopologies().map(t => t.type);
+
+// 複数の面からなる曲面でもマスが多くなりすぎない大きさ
+const arbitraryConfig = fc.record({
+    topologyType: fc.constantFrom(...topologyTypes),
+    lattice: fc.constantFrom('SQUARE', 'HEX', 'TRIANGLE'),
+    neighborhood: fc.constantFrom('MOORE', 'VON_NEUMANN'),
+    width: fc.integer({ min: 4, max: 8 }),
+    height: fc.integer({ min: 4, max: 8 }),
+    density: fc.double({ min: 0.05, max: 0.25, noNaN: true }),
+}).map(({ density, ...config }): GameConfig => {
+    const cells = createTopology({ ...config, mines: 1 }).size;
+    return { ...config, mines: Math.max(1, Math.round(cells * density)) };
+}).filter(config => validateConfig(config).errors.length === 0);
+
+function expectConsistent(board: Board, solver: Solver) {
+    for (const d of solver.deductions) {
+        expect(d.isMine, `cell ${d.cell} (${d.technique})`).toBe(board.mines[d.cell]);
+    }
+}
+
+describe('Solver', () => {
+    it('fully solves every generated board from its first click', async () => {
+        await fc.assert(fc.asyncProperty(arbitraryConfig, fc.nat(), async (config, seed) => {
+            const startIndex = centerCell(config);
+            const board = await generateBoardAsync(config, startIndex, () => {}, { seed, maxAttempts: 50 });
+            fc.pre(board !== null);
+
+            expect(board!.history.log[0]).toMatchObject({ type: 'OPEN', index: startIndex });
+            expect(board!.mines.filter(Boolean).length).toBe(config.mines);
+            const safeZone = [startIndex, ...board!.topology.getNeighbors(startIndex)];
+            expect(safeZone.some(i => board!.mines[i])).toBe(false);
+
+            const fresh = new Board(board!.topology);
+            fresh.setMines(board!.mines);
+            const solver = new Solver(fresh, config.mines);
+            expect(solver.checkSolvability(startIndex)).toBe(true);
+            expect(fresh.hasExploded()).toBe(false);
+            expect(fresh.checkWin()).toBe(true);
+            expectConsistent(fresh, solver);
+        }), { numRuns: 40 });
+    });
+
+    it.each<SolverMode>(['STANDARD', 'EXACT'])('never marks a real mine as safe (%s)', mode => {
+        fc.assert(fc.property(arbitraryConfig, fc.nat(), (config, seed) => {
+            const startIndex = centerCell(config);
+            const board = new Board(createTopology(config));
+            board.placeMines(config.mines, startIndex, createRandom(seed));
+
+            // 解けない盤面でも、途中までの推論はすべて正しくなければならない
+            const solver = new Solver(board, config.mines, mode);
+            solver.checkSolvability(startIndex);
+            expect(solver.isValidState).toBe(true);
+            expect(board.hasExploded()).toBe(false);
+            expectConsistent(board, solver);
+        }), { numRuns: mode === 'EXACT' ? 60 : 150 });
+    });
+
+    it('gives hints that agree with the mines from any reachable position', () => {
+        fc.assert(fc.property(arbitraryConfig, fc.nat(), fc.array(fc.nat(), { maxLength: 5 }), (config, seed, clicks) => {
+            const startIndex = centerCell(config);
+            const board = new Board(createTopology(config));
+            board.placeMines(config.mines, startIndex, createRandom(seed));
+            board.open(startIndex);
+            // 安全なマスをいくつか開いた局面から調べる（ヒントは旗を無視する）
+            const safe = board.mines.flatMap((mine, i) => mine ? [] : [i]);
+            for (const pick of clicks) board.open(safe[pick % safe.length]);
+            board.toggleFlag(board.mines.indexOf(true));
+
+            for (const d of findAllDeductions(board, config.mines)) {
+                expect(d.isMine, `cell ${d.cell} (${d.technique})`).toBe(board.mines[d.cell]);
+            }
+        }), { numRuns: 100 });
+    });
+
+    it('needs a subset deduction for the 1-2-1 pattern', () => {
+        // 上の行の両端に地雷があり、下の2行は開いている
+        //   * . *
+        //   1 2 1
+        const config: GameConfig = { width: 3, height: 3, mines: 2, topologyType: 'SQUARE' };
+        const topology = createTopology(config);
+        const board = new Board(topology);
+        board.setMines(board.mines.map((_, i) => i === topology.toIndex(0, 0) || i === topology.toIndex(2, 0)));
+        for (let x = 0; x < 3; x++) {
+            board.open(topology.toIndex(x, 1));
+            board.open(topology.toIndex(x, 2));
+        }
+
+        const solver = new Solver(board, config.mines);
+        while (solver.step());
+        expectConsistent(board, solver);
+        expect(new Set(solver.deductions.map(d => d.cell))).toEqual(new Set([0, 1, 2]));
+        expect(solver.deductions[0].technique).toBe('SUBSET');
+    });
+});
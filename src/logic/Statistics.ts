@@ -0,0 +1,154 @@
+/**
+ * src/logic/Statistics.ts
+ * 成績: トポロジー × 難易度プリセットごとの対戦数・勝率・タイム・連勝と、ローカルのランキング
+ */
+
+import { DIFFICULTY_PRESETS, type GameConfig, type LatticeType } from './GameCore.ts';
+
+export const STATS_VERSION = 1;
+
+const STORAGE_KEY = 'topological-minesweeper:stats';
+const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+    timeMs: number;
+    date: number;
+}
+
+export interface StatsEntry {
+    played: number;
+    wins: number;
+    // 勝った試合のタイムの合計（平均の計算用）
+    totalWinTimeMs: number;
+    currentStreak: number;
+    bestStreak: number;
+    // 速い順
+    leaderboard: LeaderboardEntry[];
+}
+
+export interface Statistics {
+    version: typeof STATS_VERSION;
+    entries: Record<string, StatsEntry>;
+}
+
+export function emptyStatistics(): Statistics {
+    return { version: STATS_VERSION, entries: {} };
+}
+
+function emptyEntry(): StatsEntry {
+    return { played: 0, wins: 0, totalWinTimeMs: 0, currentStreak: 0, bestStreak: 0, leaderboard: [] };
+}
+
+// プリセットに一致しない盤面や、周囲8マス以外の隣接ルールの盤面は記録しない
+export function findPresetIndex(config: GameConfig): number | null {
+    if (config.neighborhood && config.neighborhood !== 'MOORE') return null;
+    // 難易度の範囲を絞った盤面は、同じプリセットでも別の難しさになる
+    if (config.difficulty && config.difficulty !== 'ANY') return null;
+    const index = DIFFICULTY_PRESETS.findIndex(p =>
+        p.width === config.width && p.height === config.height && p.mines === config.mines
+    );
+    return index >= 0 ? index : null;
+}
+
+// 経過時間の表示 (m:ss)
+export function formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// 正方形の格子は格子名を付けない（格子を選べるようになる前の記録をそのまま使う）
+export function statsKey(topologyType: string, presetIndex: number, lattice: LatticeType = 'SQUARE'): string {
+    const surface = lattice === 'SQUARE' ? topologyType : `${topologyType}/${lattice}`;
+    return `${surface}|${presetIndex}`;
+}
+
+export function getEntry(stats: Statistics, topologyType: string, presetIndex: number, lattice: LatticeType = 'SQUARE'): StatsEntry {
+    return stats.entries[statsKey(topologyType, presetIndex, lattice)] ?? emptyEntry();
+}
+
+export function winRate(entry: StatsEntry): number | null {
+    return entry.played > 0 ? entry.wins / entry.played : null;
+}
+
+export function averageTime(entry: StatsEntry): number | null {
+    return entry.wins > 0 ? entry.totalWinTimeMs / entry.wins : null;
+}
+
+export function bestTime(entry: StatsEntry): number | null {
+    return entry.leaderboard.length > 0 ? entry.leaderboard[0].timeMs : null;
+}
+
+/**
+ * 終わったゲームの結果を記録した新しい成績を返す（元のオブジェクトは変更しない）。
+ * プリセット以外の盤面なら null。
+ */
+export function recordResult(
+    stats: Statistics,
+    config: GameConfig,
+    won: boolean,
+    timeMs: number,
+    date: number = Date.now()
+): { stats: Statistics, entry: StatsEntry, isNewBest: boolean } | null {
+    const presetIndex = findPresetIndex(config);
+    if (presetIndex === null) return null;
+
+    const key = statsKey(config.topologyType, presetIndex, config.lattice);
+    const prev = stats.entries[key] ?? emptyEntry();
+    const prevBest = bestTime(prev);
+
+    const entry: StatsEntry = {
+        played: prev.played + 1,
+        wins: prev.wins + (won ? 1 : 0),
+        totalWinTimeMs: prev.totalWinTimeMs + (won ? timeMs : 0),
+        currentStreak: won ? prev.currentStreak + 1 : 0,
+        bestStreak: won ? Math.max(prev.bestStreak, prev.currentStreak + 1) : prev.bestStreak,
+        leaderboard: won
+            ? [...prev.leaderboard, { timeMs, date }].sort((a, b) => a.timeMs - b.timeMs).slice(0, LEADERBOARD_SIZE)
+            : prev.leaderboard,
+    };
+
+    return {
+        stats: { ...stats, entries: { ...stats.entries, [key]: entry } },
+        entry,
+        isNewBest: won && (prevBest === null || timeMs < prevBest),
+    };
+}
+
+function isValidEntry(value: unknown): value is StatsEntry {
+    if (typeof value !== 'object' || value === null) return false;
+    const entry = value as Record<string, unknown>;
+    const counts = [entry.played, entry.wins, entry.totalWinTimeMs, entry.currentStreak, entry.bestStreak];
+    if (!counts.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)) return false;
+    return Array.isArray(entry.leaderboard) && entry.leaderboard.every(l =>
+        typeof l === 'object' && l !== null && typeof l.timeMs === 'number' && typeof l.date === 'number'
+    );
+}
+
+// 壊れた成績データは空として扱う
+export function loadStatistics(): Statistics {
+    try {
+        const text = localStorage.getItem(STORAGE_KEY);
+        if (text === null) return emptyStatistics();
+        const data = JSON.parse(text);
+        if (data?.version !== STATS_VERSION || typeof data.entries !== 'object' || data.entries === null) {
+            return emptyStatistics();
+        }
+        const entries: Record<string, StatsEntry> = {};
+        for (const [key, value] of Object.entries(data.entries)) {
+            if (isValidEntry(value)) entries[key] = value;
+        }
+        return { version: STATS_VERSION, entries };
+    } catch {
+        return emptyStatistics();
+    }
+}
+
+export function storeStatistics(stats: Statistics) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+    } catch {
+        // 保存できなくてもゲームは続けられる
+    }
+}
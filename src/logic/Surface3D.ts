@@ -0,0 +1,284 @@
+/**
+ * src/logic/Surface3D.ts
+ * 3D表示用の曲面: 貼り合わせ規則から、盤面の長方形を写す媒介変数表示の曲面を選ぶ
+ * 長方形上の位置 (s, t) ∈ [0,1]² を3次元の点に写す。貼り合わせる辺どうしは同じ点に写る
+ */
+
+import type { TopologyDefinition } from './TopologyRegistry.ts';
+import type { LatticeDefinition } from './Lattice.ts';
+
+export type Vec3 = [number, number, number];
+
+// 平面 / 円柱 / メビウスの輪 / トーラス / クラインの壺（8の字型はめ込み） / ボーイ曲面
+export type SurfaceKind = 'PLANE' | 'CYLINDER' | 'MOBIUS' | 'TORUS' | 'KLEIN' | 'BOY';
+
+export interface SurfaceMapping {
+    kind: SurfaceKind;
+    // 長方形の位置 (s, t) を曲面上の点に写す
+    point: (s: number, t: number) => Vec3;
+}
+
+const TAU = Math.PI * 2;
+
+// 左右（横方向）の貼り合わせを周回方向 u、もう一方を v とみなすために、必要なら (s, t) を入れ替える
+function oriented(swap: boolean, f: (u: number, v: number) => Vec3): (s: number, t: number) => Vec3 {
+    return swap ? (s, t) => f(t, s) : f;
+}
+
+// 円柱（u が周回、v が高さ）。縦横比を保つ
+function cylinder(aspect: number) {
+    const height = TAU * aspect;
+    return (u: number, v: number): Vec3 => [Math.cos(TAU * u), Math.sin(TAU * u), (v - 0.5) * height];
+}
+
+// メビウスの輪（u が周回、v が帯の幅方向）。一周すると幅方向が反転する
+function mobius(aspect: number) {
+    const halfWidth = Math.min(0.8, Math.PI * aspect);
+    return (u: number, v: number): Vec3 => {
+        const a = TAU * u;
+        const r = 1 + (v - 0.5) * 2 * halfWidth * Math.cos(a / 2);
+        return [r * Math.cos(a), r * Math.sin(a), (v - 0.5) * 2 * halfWidth * Math.sin(a / 2)];
+    };
+}
+
+function torus(u: number, v: number): Vec3 {
+    const a = TAU * u;
+    const b = TAU * v;
+    const r = 1 + 0.45 * Math.cos(b);
+    return [r * Math.cos(a), r * Math.sin(a), 0.45 * Math.sin(b)];
+}
+
+// クラインの壺の8の字型はめ込み。u が一周すると v が反転する（ひねられた方向が u）
+function klein(u: number, v: number): Vec3 {
+    const a = TAU * u;
+    const b = TAU * v;
+    const r = 2 + Math.cos(a / 2) * Math.sin(b) - Math.sin(a / 2) * Math.sin(2 * b);
+    return [
+        r * Math.cos(a),
+        r * Math.sin(a),
+        Math.sin(a / 2) * Math.sin(b) + Math.cos(a / 2) * Math.sin(2 * b),
+    ];
+}
+
+/**
+ * 射影平面: 正方形 → 円板（放射方向の伸縮）→ 上半球 → ボーイ曲面（Apéry の4次式）。
+ * 上下左右ともひねった貼り合わせは正方形の境界の対蹠点の同一視と同じで、
+ * 4次式は p と -p を同じ点に写すので、境界でちょうど閉じる。
+ */
+function boy(s: number, t: number): Vec3 {
+    const px = 2 * s - 1;
+    const py = 2 * t - 1;
+    const len = Math.hypot(px, py);
+    const radius = Math.max(Math.abs(px), Math.abs(py));
+    const x = len > 0 ? px / len * radius : 0;
+    const y = len > 0 ? py / len * radius : 0;
+    const z = Math.sqrt(Math.max(0, 1 - x * x - y * y));
+
+    const r2 = x * x + y * y + z * z;
+    const sum = x + y + z;
+    return [
+        ((2 * x * x - y * y - z * z) * r2 + 2 * y * z * (y * y - z * z) + z * x * (x * x - z * z) + x * y * (y * y - x * x)) / 2,
+        Math.sqrt(3) / 2 * ((y * y - z * z) * r2 + z * x * (z * z - x * x) + x * y * (y * y - x * x)),
+        sum * (sum * sum * sum + 4 * (y - x) * (z - y) * (x - z)) / 8,
+    ];
+}
+
+/**
+ * 貼り合わせ規則に合う曲面を選ぶ。
+ * 組み込み以外の登録トポロジーも、辺の指定が同じなら同じ曲面になる。
+ */
+export function surfaceFor(def: TopologyDefinition, width: number, height: number): SurfaceMapping {
+    const horizontal = def.edges.left;
+    const vertical = def.edges.top;
+    const aspect = height / width;
+
+    if (horizontal === 'OPEN' && vertical === 'OPEN') {
+        const scale = 2 / Math.max(width, height);
+        return { kind: 'PLANE', point: (s, t) => [(s - 0.5) * width * scale, (t - 0.5) * height * scale, 0] };
+    }
+    if (horizontal === 'TWISTED' && vertical === 'TWISTED') {
+        return { kind: 'BOY', point: boy };
+    }
+    // 縦方向だけ貼り合わせる場合は (s, t) を入れ替えて横方向の式を使う
+    if (horizontal === 'OPEN' || vertical === 'OPEN') {
+        const swap = horizontal === 'OPEN';
+        const glued = swap ? vertical : horizontal;
+        const ratio = swap ? 1 / aspect : aspect;
+        return glued === 'TWISTED'
+            ? { kind: 'MOBIUS', point: oriented(swap, mobius(ratio)) }
+            : { kind: 'CYLINDER', point: oriented(swap, cylinder(ratio)) };
+    }
+    if (horizontal === 'STRAIGHT' && vertical === 'STRAIGHT') {
+        return { kind: 'TORUS', point: torus };
+    }
+    // 一方だけひねり: ひねられた方向を u にしてクラインの壺
+    return { kind: 'KLEIN', point: oriented(vertical === 'TWISTED', klein) };
+}
+
+// --- メッシュ ---
+
+// 1マスを辺ごとに何分割して曲面に沿わせるか（小さい盤面ほど細かくする）
+const TARGET_SEGMENTS = 1500;
+const MAX_SUBDIVISION = 6;
+
+export interface SurfaceCell {
+    index: number;
+    // マスの輪郭（曲面に沿って分割した多角形。単位球に収まるよう正規化済み）
+    outline: Vec3[];
+    center: Vec3;
+    normal: Vec3;
+}
+
+export interface SurfaceMesh {
+    kind: SurfaceKind;
+    cells: SurfaceCell[];
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+    const len = Math.hypot(v[0], v[1], v[2]);
+    return len > 0 ? [v[0] / len, v[1] / len, v[2] / len] : [0, 0, 1];
+}
+
+export function buildSurfaceMesh(def: TopologyDefinition, lattice: LatticeDefinition, width: number, height: number): SurfaceMesh {
+    // 格子の平面座標を、盤面1枚分が [0,1]² になるよう縮めて曲面に写す
+    const tile = lattice.tileSize(width, height);
+    const { kind, point } = surfaceFor(def, tile.width, tile.height);
+    const sub = Math.max(1, Math.min(MAX_SUBDIVISION, Math.ceil(Math.sqrt(TARGET_SEGMENTS / (width * height)))));
+    const at = (px: number, py: number) => point(px / tile.width, py / tile.height);
+    const eps = 1e-3;
+
+    const cells: SurfaceCell[] = [];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const polygon = lattice.cellPolygon(x, y);
+            const outline: Vec3[] = [];
+            polygon.forEach(([x1, y1], i) => {
+                const [x2, y2] = polygon[(i + 1) % polygon.length];
+                for (let k = 0; k < sub; k++) outline.push(at(x1 + (x2 - x1) * k / sub, y1 + (y2 - y1) * k / sub));
+            });
+
+            const [cx, cy] = lattice.cellCenter(x, y);
+            const center = at(cx, cy);
+            const normal = normalize(cross(subtract(at(cx + eps, cy), at(cx - eps, cy)), subtract(at(cx, cy + eps), at(cx, cy - eps))));
+            cells.push({ index: y * width + x, outline, center, normal });
+        }
+    }
+
+    // 重心を原点に移し、単位球に収める
+    const all = cells.flatMap(c => c.outline);
+    const mid = [0, 1, 2].map(axis => {
+        const values = all.map(p => p[axis]);
+        return (Math.min(...values) + Math.max(...values)) / 2;
+    }) as Vec3;
+    const radius = Math.max(...all.map(p => Math.hypot(...subtract(p, mid)))) || 1;
+    const fit = (p: Vec3): Vec3 => {
+        const [dx, dy, dz] = subtract(p, mid);
+        return [dx / radius, dy / radius, dz / radius];
+    };
+    for (const cell of cells) {
+        cell.outline = cell.outline.map(fit);
+        cell.center = fit(cell.center);
+    }
+    return { kind, cells };
+}
+
+// --- 投影とピッキング ---
+
+export interface SurfaceCamera {
+    yaw: number;
+    pitch: number;
+}
+
+export interface ProjectedCell {
+    index: number;
+    outline: [number, number][];
+    center: [number, number];
+    // 画面上のおおよその大きさ（文字の大きさに使う）
+    size: number;
+    // 視線に対する面の向き（0: 真横〜1: 正面）。表裏は区別しない
+    facing: number;
+}
+
+// 透視投影のカメラ距離（単位球の半径を1とする）
+const CAMERA_DISTANCE = 4;
+
+// yaw（縦軸まわり）→ pitch（横軸まわり）の順に回転する
+function rotate([x, y, z]: Vec3, { yaw, pitch }: SurfaceCamera): Vec3 {
+    const cy = Math.cos(yaw), sy = Math.sin(yaw);
+    const x1 = x * cy + z * sy;
+    const z1 = -x * sy + z * cy;
+    const cp = Math.cos(pitch), sp = Math.sin(pitch);
+    return [x1, y * cp - z1 * sp, y * sp + z1 * cp];
+}
+
+/**
+ * メッシュを画面に投影し、奥から手前の順（画家のアルゴリズムの描画順）に並べて返す。
+ * scale は単位球の半径に対応する画面上の長さ。
+ */
+export function projectSurface(
+    mesh: SurfaceMesh,
+    camera: SurfaceCamera,
+    originX: number,
+    originY: number,
+    scale: number
+): ProjectedCell[] {
+    const project = (p: Vec3): [number, number, number] => {
+        const [x, y, z] = rotate(p, camera);
+        const f = scale * CAMERA_DISTANCE / (CAMERA_DISTANCE - z);
+        return [originX + x * f, originY - y * f, z];
+    };
+
+    const projected = mesh.cells.map(cell => {
+        const outline = cell.outline.map(project);
+        const [cx, cy, depth] = project(cell.center);
+        const [nx, ny, nz] = rotate(cell.normal, camera);
+        // 透視による視線の傾きは無視し、正面方向 (z) との角度で近似する
+        const facing = Math.abs(nz) / (Math.hypot(nx, ny, nz) || 1);
+
+        let area = 0;
+        for (let i = 0; i < outline.length; i++) {
+            const [x1, y1] = outline[i];
+            const [x2, y2] = outline[(i + 1) % outline.length];
+            area += x1 * y2 - x2 * y1;
+        }
+        return {
+            depth,
+            cell: {
+                index: cell.index,
+                outline: outline.map(([x, y]) => [x, y] as [number, number]),
+                center: [cx, cy] as [number, number],
+                size: Math.sqrt(Math.abs(area) / 2),
+                facing,
+            },
+        };
+    });
+
+    projected.sort((a, b) => a.depth - b.depth);
+    return projected.map(p => p.cell);
+}
+
+function containsPoint(outline: [number, number][], x: number, y: number): boolean {
+    let inside = false;
+    for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+        const [xi, yi] = outline[i];
+        const [xj, yj] = outline[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+// 画面上の点にある一番手前のマスの番号（曲面の外なら null）
+export function pickSurfaceCell(cells: ProjectedCell[], x: number, y: number): number | null {
+    for (let i = cells.length - 1; i >= 0; i--) {
+        if (containsPoint(cells[i].outline, x, y)) return cells[i].index;
+    }
+    return null;
+}
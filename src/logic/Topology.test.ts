@@ -0,0 +1,155 @@
+/**
+ * src/logic/Topology.test.ts
+ * 隣接の不変条件: すべてのトポロジー・格子・大きさで、隣接は対称で自己ループや重複がなく、閉曲面では次数が決まった値になる
+ */
+
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { createTopology, topologyErrors, type GameConfig, type Topology } from './GameCore.ts';
+import { listTopologies, type TopologyDefinition } from './TopologyRegistry.ts';
+import { listLattices } from './Lattice.ts';
+import { openPatchSides } from './PatchSurface.ts';
+
+const topologies = listTopologies();
+const topologyTypes = topologies.map(t => t.type);
+
+// 作れる形ならその隣接を返す（格子が食い違う大きさなどは null）
+function topologyFor(config: Omit<GameConfig, 'mines'>): Topology | null {
+    if (topologyErrors(config).length > 0) return null;
+    return createTopology({ ...config, mines: 1 });
+}
+
+function isClosed(def: TopologyDefinition): boolean {
+    if (def.patches) return openPatchSides(def.patches).length === 0;
+    return Object.values(def.edges).every(edge => edge !== 'OPEN');
+}
+
+function expectWellFormed(topology: Topology) {
+    for (let i = 0; i < topology.size; i++) {
+        const neighbors = topology.getNeighbors(i);
+        expect(neighbors).not.toContain(i);
+        expect(new Set(neighbors).size).toBe(neighbors.length);
+        for (const n of neighbors) {
+            expect(n).toBeGreaterThanOrEqual(0);
+            expect(n).toBeLessThan(topology.size);
+            expect(topology.getNeighbors(n)).toContain(i);
+        }
+    }
+}
+
+function degrees(topology: Topology): number[] {
+    return Array.from({ length: topology.size }, (_, i) => topology.getNeighbors(i).length);
+}
+
+describe('Topology adjacency', () => {
+    it('is symmetric, loop-free and duplicate-free for every topology, lattice and size', () => {
+        fc.assert(fc.property(
+            fc.constantFrom(...topologyTypes),
+            fc.constantFrom(...listLattices().map(l => l.type)),
+            fc.integer({ min: 1, max: 9 }),
+            fc.integer({ min: 1, max: 9 }),
+            (topologyType, lattice, width, height) => {
+                const topology = topologyFor({ topologyType, lattice, width, height });
+                if (topology) expectWellFormed(topology);
+            }
+        ), { numRuns: 300 });
+    });
+
+    it('is well-formed for every neighbourhood rule', () => {
+        fc.assert(fc.property(
+            fc.constantFrom(...topologyTypes),
+            fc.constantFrom('VON_NEUMANN', 'RADIUS_2', 'KNIGHT', 'CUSTOM'),
+            fc.array(fc.tuple(fc.integer({ min: -3, max: 3 }), fc.integer({ min: -3, max: 3 })), { minLength: 1, maxLength: 4 }),
+            fc.integer({ min: 1, max: 8 }),
+            (topologyType, neighborhood, customOffsets, size) => {
+                const topology = topologyFor({ topologyType, neighborhood, customOffsets, width: size, height: size });
+                if (topology) expectWellFormed(topology);
+            }
+        ), { numRuns: 200 });
+    });
+
+    // 射影平面は1枚の長方形の向かい合う角を貼るので、角には2マスしか集まらない（下で別に確かめる）
+    describe.each(topologies.filter(t => !t.patches && isClosed(t) && t.type !== 'PROJECTIVE').map(t => t.type))('closed surface %s', topologyType => {
+        const sizes = [3, 4, 5, 6, 7, 8];
+
+        it('gives every square cell 8 neighbours', () => {
+            for (const width of sizes) for (const height of sizes) {
+                expect(new Set(degrees(topologyFor({ topologyType, width, height })!))).toEqual(new Set([8]));
+            }
+        });
+
+        it('gives every hexagonal cell 6 neighbours', () => {
+            for (const width of sizes) for (const height of sizes) {
+                const topology = topologyFor({ topologyType, lattice: 'HEX', width, height });
+                if (topology) expect(new Set(degrees(topology))).toEqual(new Set([6]));
+            }
+        });
+
+        it('gives every triangular cell 12 neighbours', () => {
+            for (const width of [6, 7, 8]) for (const height of [4, 5, 6]) {
+                const topology = topologyFor({ topologyType, lattice: 'TRIANGLE', width, height });
+                if (topology) expect(new Set(degrees(topology))).toEqual(new Set([12]));
+            }
+        });
+
+        it('follows the neighbourhood rule', () => {
+            const expected = { VON_NEUMANN: 4, RADIUS_2: 24, KNIGHT: 8 } as const;
+            for (const [neighborhood, degree] of Object.entries(expected)) {
+                const topology = topologyFor({ topologyType, neighborhood: neighborhood as keyof typeof expected, width: 7, height: 6 });
+                expect(new Set(degrees(topology!))).toEqual(new Set([degree]));
+            }
+        });
+    });
+
+    it('gives the projective plane fewer neighbours only at its four corners', () => {
+        for (const [width, height] of [[5, 4], [7, 6], [8, 8]]) {
+            const topology = topologyFor({ topologyType: 'PROJECTIVE', width, height })!;
+            const corners = [[0, 0], [width - 1, 0], [0, height - 1], [width - 1, height - 1]].map(([x, y]) => topology.toIndex(x, y));
+            degrees(topology).forEach((degree, i) => expect(degree).toBe(corners.includes(i) ? 6 : 8));
+
+            const edges = topologyFor({ topologyType: 'PROJECTIVE', neighborhood: 'VON_NEUMANN', width, height })!;
+            degrees(edges).forEach((degree, i) => expect(degree).toBe(corners.includes(i) ? 3 : 4));
+        }
+    });
+
+    it('never exceeds the plane degree on surfaces with open edges', () => {
+        for (const def of topologies.filter(t => !t.patches && !isClosed(t))) {
+            const topology = topologyFor({ topologyType: def.type, width: 6, height: 5 })!;
+            expect(Math.max(...degrees(topology))).toBe(8);
+            expect(Math.min(...degrees(topology))).toBeGreaterThanOrEqual(3);
+        }
+    });
+
+    /**
+     * 複数の面からなる閉曲面: 上下左右の隣接はどのマスも4。
+     * 周囲8マスでは、k マスが集まる頂点がそこに集まる各マスに k - 3 個の斜めの隣接を与えるので、
+     * 次数の合計は 4N + Σ k(k - 3)。頂点の数は N + χ（χ はオイラー標数）で、特別な頂点以外は k = 4。
+     */
+    describe.each([
+        { topologyType: 'SPHERE', euler: 2, special: [3, 3, 3, 3, 3, 3, 3, 3] },
+        { topologyType: 'DOUBLE_TORUS', euler: -2, special: [8, 8] },
+        { topologyType: 'TORUS#PROJECTIVE', euler: -1, special: [6, 6] },
+    ])('patch surface $topologyType', ({ topologyType, euler, special }) => {
+        it('is closed', () => {
+            expect(isClosed(topologies.find(t => t.type === topologyType)!)).toBe(true);
+        });
+
+        // 1×1 の面では、多角形の中心のまわりの面が同じ面と何度も接してしまう
+        it('gives every cell 4 edge neighbours', () => {
+            for (const size of [2, 3, 5, 8]) {
+                const topology = topologyFor({ topologyType, neighborhood: 'VON_NEUMANN', width: size, height: size })!;
+                expect(new Set(degrees(topology))).toEqual(new Set([4]));
+            }
+        });
+
+        it('has the vertex structure of its Euler characteristic', () => {
+            for (const size of [3, 4, 6]) {
+                const topology = topologyFor({ topologyType, width: size, height: size })!;
+                const n = topology.size;
+                const regular = n + euler - special.length;
+                const expected = 4 * n + regular * 4 + special.reduce((sum, k) => sum + k * (k - 3), 0);
+                expect(degrees(topology).reduce((a, b) => a + b, 0)).toBe(expected);
+            }
+        });
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * src/logic/TopologyRegistry.ts
+ * トポロジー定義: 長方形の4辺の貼り合わせ方（または複数の面の貼り合わせ方）を宣言し、登録・参照する
+ * 盤面の隣接グラフ (Topology) と無限スクロール描画 (GameCanvas) はどちらもここを参照する
+ */
+
+import { POLYGON_WORDS, connectedSum, polygonLayout, validatePatchLayout, type PatchLayout } from './PatchSurface.ts';
+
+export type BuiltinTopologyType =
+    'TORUS' | 'SQUARE' | 'MOBIUS' | 'KLEIN' | 'PROJECTIVE' | 'SPHERE' | 'DOUBLE_TORUS' | 'TORUS#PROJECTIVE';
+// 組み込み以外のトポロジーも登録できるよう、任意の文字列を許容する
+export type TopologyType = BuiltinTopologyType | (string & {});
+
+// 辺の扱い: 開いた端 / そのまま貼り合わせ / ひねって貼り合わせ
+export type EdgeGluing = 'OPEN' | 'STRAIGHT' | 'TWISTED';
+
+export interface EdgeGluings {
+    left: EdgeGluing;
+    right: EdgeGluing;
+    top: EdgeGluing;
+    bottom: EdgeGluing;
+}
+
+export interface TopologyDefinition {
+    type: TopologyType;
+    label: string;
+    edges: EdgeGluings;
+    // 複数の面を貼り合わせる曲面（このとき長方形の4辺はすべて OPEN で、無限スクロールはしない）
+    patches?: PatchLayout;
+}
+
+const registry = new Map<TopologyType, TopologyDefinition>();
+
+// 向かい合う辺同士で貼り合わせるので、左右・上下はそれぞれ同じ指定でなければならない
+function validateDefinition(def: TopologyDefinition) {
+    const { left, right, top, bottom } = def.edges;
+    if (left !== right) {
+        throw new Error(`Topology ${def.type}: left (${left}) and right (${right}) edges must be glued the same way`);
+    }
+    if (top !== bottom) {
+        throw new Error(`Topology ${def.type}: top (${top}) and bottom (${bottom}) edges must be glued the same way`);
+    }
+    if (def.patches) {
+        if (left !== 'OPEN' || top !== 'OPEN') {
+            throw new Error(`Topology ${def.type}: a patch surface glues its patches, so its rectangle edges must be OPEN`);
+        }
+        validatePatchLayout(def.type, def.patches);
+    }
+}
+
+export function registerTopology(def: TopologyDefinition): TopologyDefinition {
+    validateDefinition(def);
+    registry.set(def.type, def);
+    return def;
+}
+
+export function getTopologyDefinition(type: TopologyType): TopologyDefinition {
+    const def = registry.get(type);
+    if (!def) throw new Error(`Unknown topology: ${type}`);
+    return def;
+}
+
+export function listTopologies(): TopologyDefinition[] {
+    return Array.from(registry.values());
+}
+
+/**
+ * 無限タイリングの (loopX, loopY) 枚目のコピーの向き。
+ * 左右をひねって越えた回数が奇数なら上下反転、上下をひねって越えた回数が奇数なら左右反転。
+ * 開いた端の向こう側（コピーが存在しない）なら null。
+ */
+export function tileOrientation(
+    def: TopologyDefinition,
+    loopX: number,
+    loopY: number
+): { flipX: boolean, flipY: boolean } | null {
+    const horizontal = def.edges.left;
+    const vertical = def.edges.top;
+
+    if (horizontal === 'OPEN' && loopX !== 0) return null;
+    if (vertical === 'OPEN' && loopY !== 0) return null;
+
+    return {
+        flipX: vertical === 'TWISTED' && loopY % 2 !== 0,
+        flipY: horizontal === 'TWISTED' && loopX % 2 !== 0,
+    };
+}
+
+/**
+ * 盤面外の座標 (tx, ty) を、貼り合わせ規則に従って盤面内の座標に写す。
+ * 何周目か (loopX, loopY) からそのコピーの向きを求め、反転していれば座標も反転する。
+ */
+export function mapGluedCoordinate(
+    def: TopologyDefinition,
+    w: number,
+    h: number,
+    tx: number,
+    ty: number
+): { nx: number, ny: number, valid: boolean } {
+    // 何周目か
+    const loopX = Math.floor(tx / w);
+    const loopY = Math.floor(ty / h);
+
+    // 基本座標（0 ～ size-1）
+    const nx = ((tx % w) + w) % w;
+    const ny = ((ty % h) + h) % h;
+
+    const orientation = tileOrientation(def, loopX, loopY);
+    if (!orientation) return { nx, ny, valid: false };
+
+    return {
+        nx: orientation.flipX ? w - 1 - nx : nx,
+        ny: orientation.flipY ? h - 1 - ny : ny,
+        valid: true,
+    };
+}
+
+/**
+ * 無限スクロールで同じ見た目に戻るまでの周期（盤面何枚分か）。
+ * 開いた端なら null、そのままなら1枚、ひねりなら2枚で元の向きに戻る。
+ */
+export function tilingPeriod(gluing: EdgeGluing): number | null {
+    switch (gluing) {
+        case 'OPEN': return null;
+        case 'STRAIGHT': return 1;
+        case 'TWISTED': return 2;
+    }
+}
+
+// --- 組み込みトポロジー ---
+registerTopology({
+    type: 'SQUARE',
+    label: '平面 (Square)',
+    edges: { left: 'OPEN', right: 'OPEN', top: 'OPEN', bottom: 'OPEN' },
+});
+
+registerTopology({
+    type: 'TORUS',
+    label: 'トーラス (Torus)',
+    edges: { left: 'STRAIGHT', right: 'STRAIGHT', top: 'STRAIGHT', bottom: 'STRAIGHT' },
+});
+
+// 左右はひねってつながり、上下はつながらない
+registerTopology({
+    type: 'MOBIUS',
+    label: 'メビウスの輪 (Möbius)',
+    edges: { left: 'TWISTED', right: 'TWISTED', top: 'OPEN', bottom: 'OPEN' },
+});
+
+// 左右はそのまま、上下はひねってつながる
+registerTopology({
+    type: 'KLEIN',
+    label: 'クラインの壺 (Klein)',
+    edges: { left: 'STRAIGHT', right: 'STRAIGHT', top: 'TWISTED', bottom: 'TWISTED' },
+});
+
+// 上下左右すべてひねってつながる
+registerTopology({
+    type: 'PROJECTIVE',
+    label: '射影平面 (Projective)',
+    edges: { left: 'TWISTED', right: 'TWISTED', top: 'TWISTED', bottom: 'TWISTED' },
+});
+
+// --- 複数の面からなる曲面 ---
+const PATCH_EDGES: EdgeGluings = { left: 'OPEN', right: 'OPEN', top: 'OPEN', bottom: 'OPEN' };
+
+// 立方体の展開図（十字形）。各頂点には3マスが集まる
+//     U
+//   L F R B
+//     D
+registerTopology({
+    type: 'SPHERE',
+    label: '球面 (Sphere)',
+    edges: PATCH_EDGES,
+    patches: {
+        patches: [
+            { label: 'F', x: 1, y: 1, rotation: 0 },
+            { label: 'U', x: 1, y: 0, rotation: 0 },
+            { label: 'L', x: 0, y: 1, rotation: 0 },
+            { label: 'R', x: 2, y: 1, rotation: 0 },
+            { label: 'B', x: 3, y: 1, rotation: 0 },
+            { label: 'D', x: 1, y: 2, rotation: 0 },
+        ],
+        seams: [
+            // 展開図で接している辺
+            { a: { patch: 1, side: 'bottom' }, b: { patch: 0, side: 'top' }, reversed: false, label: 'a' },
+            { a: { patch: 2, side: 'right' }, b: { patch: 0, side: 'left' }, reversed: false, label: 'b' },
+            { a: { patch: 0, side: 'right' }, b: { patch: 3, side: 'left' }, reversed: false, label: 'c' },
+            { a: { patch: 3, side: 'right' }, b: { patch: 4, side: 'left' }, reversed: false, label: 'd' },
+            { a: { patch: 0, side: 'bottom' }, b: { patch: 5, side: 'top' }, reversed: false, label: 'e' },
+            // 折り曲げて貼る辺
+            { a: { patch: 2, side: 'left' }, b: { patch: 4, side: 'right' }, reversed: false, label: 'f' },
+            { a: { patch: 1, side: 'left' }, b: { patch: 2, side: 'top' }, reversed: false, label: 'g' },
+            { a: { patch: 1, side: 'right' }, b: { patch: 3, side: 'top' }, reversed: true, label: 'h' },
+            { a: { patch: 1, side: 'top' }, b: { patch: 4, side: 'top' }, reversed: true, label: 'i' },
+            { a: { patch: 5, side: 'left' }, b: { patch: 2, side: 'bottom' }, reversed: true, label: 'j' },
+            { a: { patch: 5, side: 'right' }, b: { patch: 3, side: 'bottom' }, reversed: false, label: 'k' },
+            { a: { patch: 5, side: 'bottom' }, b: { patch: 4, side: 'bottom' }, reversed: true, label: 'l' },
+        ],
+    },
+});
+
+// 八角形の辺を abABcdCD と貼る（トーラスとトーラスの連結和）。中心と頂点にそれぞれ8マスが集まる
+registerTopology({
+    type: 'DOUBLE_TORUS',
+    label: '2人乗りトーラス (Double torus)',
+    edges: PATCH_EDGES,
+    patches: polygonLayout(connectedSum(POLYGON_WORDS.TORUS, POLYGON_WORDS.TORUS)),
+});
+
+// 六角形の辺を abABcc と貼る（トーラスと射影平面の連結和。射影平面3つの連結和と同じ）
+registerTopology({
+    type: 'TORUS#PROJECTIVE',
+    label: 'トーラス # 射影平面 (Torus # Projective)',
+    edges: PATCH_EDGES,
+    patches: polygonLayout(connectedSum(POLYGON_WORDS.TORUS, POLYGON_WORDS.PROJECTIVE)),
+});